@@ -1,91 +1,535 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import HandManager from './components/HandManager';
 import ChristmasScene from './components/ChristmasScene';
-import { AppState, HandGesture } from './types';
+import FallbackInput from './components/FallbackInput';
+import PhotoLibraryPanel from './components/PhotoLibraryPanel';
+import LayoutPanel from './components/LayoutPanel';
+import ThemePanel from './components/ThemePanel';
+import WeatherPanel from './components/WeatherPanel';
+import QualityOverlay from './components/QualityOverlay';
+import CameraPanel from './components/CameraPanel';
+import CameraPreview from './components/CameraPreview';
+import ReplayInput from './components/ReplayInput';
+import CapturePanel, { CaptureActivity, CaptureSettings } from './components/CapturePanel';
+import SharePanel, { ShareStatus } from './components/SharePanel';
+import SlideshowPanel from './components/SlideshowPanel';
+import PhotoDetailsPanel from './components/PhotoDetailsPanel';
+import AudioControls from './components/AudioControls';
+import { AppState, AudioSettings, GestureEvent, GestureKind, HandFrame, HandGesture, InputSourceKind, LayoutSelection, PhotoSource, SlideshowSettings, Theme, TreeConfig, WeatherSettings } from './types';
+import { IDLE_GESTURE } from './utils/gestureRecognizer';
+import { GestureResolver, PINCH_HOLD_MS, createAppMachine } from './utils/appMachine';
+import { KEY_BINDINGS, detectFallbackKind } from './utils/inputSources';
+import { randomSeed } from './utils/random';
+import { DEFAULT_LAYOUT } from './utils/layouts';
+import { ShapeMask, createImageMask } from './utils/shapeMask';
+import { BUILT_IN_THEMES, DEFAULT_THEME, getBuiltInTheme } from './utils/themes';
+import { useMachineSnapshot } from './hooks/useMachineSnapshot';
+import { QualityManager } from './utils/qualityManager';
+import { useQualitySettings } from './hooks/useQuality';
+import { usePhotoLibrary } from './hooks/usePhotoLibrary';
+import { useCamera } from './hooks/useCamera';
+import { CAMERA_ERROR_MESSAGES } from './utils/camera';
+import { LandmarkRecorder, LandmarkRecording, parseRecording, serializeRecording } from './utils/landmarkRecording';
+import { SNAPSHOT_HEIGHTS, SceneCapture, downloadBlob } from './utils/capture';
+import { photoParticleId } from './utils/math';
+import { DEFAULT_SLIDESHOW } from './utils/slideshow';
+import { useSlideshow } from './hooks/useSlideshow';
+import { DEFAULT_AUDIO, HolidayAudio } from './utils/audio';
+import {
+  createTreeConfig, decodeTreeConfigHash, encodeTreeConfigHash, parseTreeConfig, resolvePhotoRefs, serializeTreeConfig
+} from './utils/treeConfig';
 
 // Default photos to make the tree look good initially
-const DEFAULT_PHOTOS = [
-  'https://picsum.photos/400/400?random=1',
-  'https://picsum.photos/400/400?random=2',
-  'https://picsum.photos/400/400?random=3',
-  'https://picsum.photos/400/400?random=4',
-  'https://picsum.photos/400/400?random=5',
-  'https://picsum.photos/400/400?random=6',
-];
+const DEFAULT_PHOTOS: PhotoSource[] = [1, 2, 3, 4, 5, 6].map(i => ({
+  url: `https://picsum.photos/400/400?random=${i}`,
+  aspect: 1
+}));
+
+const DEFAULT_WEATHER: WeatherSettings = { snow: true, density: 0.5, wind: 0.2 };
+
+// The layout seed lives in the URL (?seed=...) so a tree can be shared and rebuilt exactly
+const readSeedFromUrl = () => new URLSearchParams(window.location.search).get('seed');
+
+const writeSeedToUrl = (seed: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('seed', seed);
+  window.history.replaceState(null, '', url);
+};
+
+// A shared link carries the whole tree config in the hash (#tree=...). It is read once on
+// load and then dropped, so the seed in the query string stays the only live state in the URL.
+const clearConfigFromUrl = () => {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(null, '', url);
+};
+
+const DEFAULT_CAPTURE: CaptureSettings = { resolution: '1080p', greeting: 'Merry Christmas', showGreeting: true };
+
+const COUNTDOWN_SECONDS = 3;
+// The recorded clip: a beat of the tree, the explosion, then it reassembling (ms)
+const CLIP_TIMING = { settle: 2000, lead: 800, exploded: 3000, reassemble: 3500 };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const INPUT_LABELS: Record<InputSourceKind, string> = {
+  HAND: 'Hand Tracking',
+  KEYBOARD_MOUSE: 'Keyboard & Mouse',
+  TOUCH: 'Touch',
+  REPLAY: 'Recording'
+};
+
+// How to trigger each control with the active input, shown under its icon
+const CONTROL_HINTS: Record<InputSourceKind, Record<Exclude<GestureKind, 'SWIPE'> | 'MOVE', string | null>> = {
+  HAND: { FIST: null, OPEN_PALM: null, PINCH: null, BOTH_PALMS: null, MOVE: 'tilt / swipe' },
+  KEYBOARD_MOUSE: {
+    FIST: `[${KEY_BINDINGS.FIST[0]}]`,
+    OPEN_PALM: `[${KEY_BINDINGS.OPEN_PALM[0]}]`,
+    PINCH: `[${KEY_BINDINGS.PINCH[0]}]`,
+    BOTH_PALMS: `[${KEY_BINDINGS.BOTH_PALMS[0]}]`,
+    MOVE: 'mouse, ← →'
+  },
+  TOUCH: { FIST: 'double tap', OPEN_PALM: 'spread', PINCH: 'pinch', BOTH_PALMS: null, MOVE: 'drag' },
+  REPLAY: { FIST: null, OPEN_PALM: null, PINCH: null, BOTH_PALMS: null, MOVE: null }
+};
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.TREE);
-  const [photos, setPhotos] = useState<string[]>(DEFAULT_PHOTOS);
-  const [hasCustomPhotos, setHasCustomPhotos] = useState(false);
-  const [gesture, setGesture] = useState<HandGesture>({
-    isFist: false,
-    isOpenPalm: false,
-    isPinching: false,
-    handPosition: { x: 0.5, y: 0.5 },
-    rotation: 0
-  });
+  // AppState transitions live in a declarative machine shared with the scene
+  const [machine] = useState(createAppMachine);
+  const [gestureResolver] = useState(() => new GestureResolver());
+  const { state: appState, context: { lightPattern } } = useMachineSnapshot(machine);
+  // Touch gestures are read from the scene's layer only, not the panels above it
+  const [sceneLayer, setSceneLayer] = useState<HTMLDivElement | null>(null);
+  const hoveredPhotoIdRef = useRef<number | null>(null);
+  // Scales rendering (and the hand model) to what the machine can keep up with
+  const [quality] = useState(() => new QualityManager());
+  const qualitySettings = useQualitySettings(quality);
+  // Saved photos replace the random defaults as soon as there is at least one, and the
+  // photos of an imported tree replace both until the next upload.
+  // Nothing is shown until the library has loaded, so the defaults don't flash first.
+  const library = usePhotoLibrary();
+  const hasCustomPhotos = library.photos.length > 0;
+  const [importedPhotos, setImportedPhotos] = useState<PhotoSource[] | null>(null);
+  const photos = useMemo(() => {
+    if (importedPhotos) return importedPhotos;
+    if (hasCustomPhotos) return library.photos;
+    return library.loaded ? DEFAULT_PHOTOS : [];
+  }, [importedPhotos, hasCustomPhotos, library.photos, library.loaded]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  // Library photos open in the details editor: a fresh upload, or one picked from the library
+  const [editingPhotoIds, setEditingPhotoIds] = useState<string[]>([]);
+  const editingPhotos = useMemo(
+    () => library.photos.filter(photo => editingPhotoIds.includes(photo.id)),
+    [library.photos, editingPhotoIds]
+  );
+  const [photosByDate, setPhotosByDate] = useState(false);
+  const [seed, setSeed] = useState(() => readSeedFromUrl() || randomSeed());
+
+  useEffect(() => {
+    writeSeedToUrl(seed);
+  }, [seed]);
+  const [layout, setLayout] = useState<LayoutSelection>(DEFAULT_LAYOUT);
+  const [silhouetteMask, setSilhouetteMask] = useState<ShapeMask | null>(null);
+  const [showLayout, setShowLayout] = useState(false);
+  // null leaves the ornament count to the quality tier
+  const [ornamentCount, setOrnamentCount] = useState<number | null>(null);
+  const [theme, setTheme] = useState<Theme>(DEFAULT_THEME);
+  // Imported themes sit alongside the built-ins for this session
+  const [customThemes, setCustomThemes] = useState<Theme[]>([]);
+  const [showTheme, setShowTheme] = useState(false);
+  const [weather, setWeather] = useState<WeatherSettings>(DEFAULT_WEATHER);
+  const [showWeather, setShowWeather] = useState(false);
+  const [gesture, setGesture] = useState<HandGesture>(IDLE_GESTURE);
 
   const [permissionGranted, setPermissionGranted] = useState(false);
+  // Starts on hand tracking and drops to keyboard/mouse or touch if the camera can't be used
+  const [inputSource, setInputSource] = useState<InputSourceKind>('HAND');
+  const camera = useCamera();
+  const [showCamera, setShowCamera] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  // Landmarks for the preview, updated every tracked frame without re-rendering the App
+  const handFrameRef = useRef<HandFrame[]>([]);
+  const [recorder] = useState(() => new LandmarkRecorder());
+  const [recording, setRecording] = useState(false);
+  const [replay, setReplay] = useState<LandmarkRecording | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [capture] = useState(() => new SceneCapture());
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(DEFAULT_CAPTURE);
+  const [captureActivity, setCaptureActivity] = useState<CaptureActivity>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [showCapture, setShowCapture] = useState(false);
+  // Guards against a second capture starting before the state update lands
+  const captureBusyRef = useRef(false);
+  const pinchHoldTimerRef = useRef<number | null>(null);
+  // Latest takeSnapshot for the pinch-hold timer, which outlives renders
+  const takeSnapshotRef = useRef<() => void>(() => {});
+  const [showShare, setShowShare] = useState(false);
+  const [shareStatus, setShareStatus] = useState<ShareStatus | null>(null);
+  const [slideshowSettings, setSlideshowSettings] = useState<SlideshowSettings>(DEFAULT_SLIDESHOW);
+  // Silent until the start click, which is the user gesture browsers require for audio
+  const [audio] = useState(() => new HolidayAudio());
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO);
+  const [showSlideshow, setShowSlideshow] = useState(false);
 
-  // Gesture State Machine Logic
   const handleGestureUpdate = useCallback((newGesture: HandGesture) => {
     setGesture(newGesture);
+  }, []);
 
-    // State Transitions based on gestures with simple debouncing logic needed in real world,
-    // but for this direct mapping:
-    if (newGesture.isFist) {
-      setAppState(AppState.TREE);
-    } else if (newGesture.isOpenPalm) {
-      // Only switch to Exploded if not already focusing
-      if (appState !== AppState.EXPLODED && appState !== AppState.FOCUS) {
-         setAppState(AppState.EXPLODED);
-      }
-      // If we are focusing and open palm, maybe go back to exploded?
-      if (appState === AppState.FOCUS) {
-          setAppState(AppState.EXPLODED);
-      }
-    } else if (newGesture.isPinching) {
-      if (appState === AppState.EXPLODED) {
-          setAppState(AppState.FOCUS);
+  // Debounced gestures drive the state machine; a pinch on the assembled tree waits
+  // for its release, or for the hold timer to turn it into a picture
+  const handleGestureEvent = useCallback((event: GestureEvent) => {
+    const resolved = gestureResolver.resolve(event, machine.getSnapshot().state, hoveredPhotoIdRef.current);
+    if (pinchHoldTimerRef.current !== null && !gestureResolver.holdPending) {
+      window.clearTimeout(pinchHoldTimerRef.current);
+      pinchHoldTimerRef.current = null;
+    }
+    if (gestureResolver.holdPending && event.type === 'start') {
+      pinchHoldTimerRef.current = window.setTimeout(() => {
+        pinchHoldTimerRef.current = null;
+        if (gestureResolver.poll(performance.now())) takeSnapshotRef.current();
+      }, PINCH_HOLD_MS);
+    }
+    if (resolved === 'PINCH_HOLD') takeSnapshotRef.current();
+    else if (resolved) machine.send(resolved);
+  }, [machine, gestureResolver]);
+
+  useEffect(() => () => {
+    if (pinchHoldTimerRef.current !== null) window.clearTimeout(pinchHoldTimerRef.current);
+  }, []);
+
+  const bothPalmsOpen = gesture.hands.length === 2 && gesture.hands.every(h => h.isOpenPalm);
+
+  const handleInputError = useCallback((message: string) => {
+    console.warn(`Hand tracking unavailable (${message}), switching to fallback input`);
+    setInputSource(detectFallbackKind());
+  }, []);
+
+  const handleHandFrame = useCallback((frame: HandFrame[], timestamp: number) => {
+    handFrameRef.current = frame;
+    recorder.capture(frame, timestamp);
+  }, [recorder]);
+
+  // The camera can also fail mid-experience, e.g. when it's unplugged
+  useEffect(() => {
+    if (permissionGranted && inputSource === 'HAND' && camera.status === 'ERROR' && camera.error) handleInputError(camera.error);
+  }, [permissionGranted, inputSource, camera.status, camera.error, handleInputError]);
+
+  const toggleRecording = () => {
+    if (!recorder.isRecording) {
+      recorder.start();
+      setRecording(true);
+      return;
+    }
+    const result = recorder.stop();
+    setRecording(false);
+    downloadBlob(
+      new Blob([serializeRecording(result)], { type: 'application/json' }),
+      `landmarks-${result.recordedAt.replace(/[:.]/g, '-')}.json`
+    );
+  };
+
+  const captureGreeting = () => {
+    const text = captureSettings.greeting.trim();
+    return captureSettings.showGreeting && text ? text : null;
+  };
+
+  const runCountdown = async () => {
+    setCaptureActivity('COUNTDOWN');
+    for (let n = COUNTDOWN_SECONDS; n > 0; n--) {
+      setCountdown(n);
+      await wait(1000);
+    }
+    setCountdown(null);
+  };
+
+  const takeSnapshot = async () => {
+    if (captureBusyRef.current) return;
+    captureBusyRef.current = true;
+    try {
+      await runCountdown();
+      setCaptureActivity('SNAPSHOT');
+      const blob = await capture.snapshot(SNAPSHOT_HEIGHTS[captureSettings.resolution], { greeting: captureGreeting() });
+      downloadBlob(blob, `christmas-tree-${seed}.png`);
+    } catch (e) {
+      console.warn('Could not take a picture', e);
+    } finally {
+      captureBusyRef.current = false;
+      setCountdown(null);
+      setCaptureActivity(null);
+    }
+  };
+  takeSnapshotRef.current = takeSnapshot;
+
+  // Drives the tree through explode and reassemble while recording
+  const recordClip = async () => {
+    if (captureBusyRef.current) return;
+    captureBusyRef.current = true;
+    try {
+      await runCountdown();
+      if (machine.getSnapshot().state !== AppState.TREE) {
+        machine.send({ type: 'FIST' });
+        await wait(CLIP_TIMING.settle);
       }
+      setCaptureActivity('RECORDING');
+      const clip = await capture.startRecording({ greeting: captureGreeting() });
+      await wait(CLIP_TIMING.lead);
+      machine.send({ type: 'OPEN_PALM' });
+      await wait(CLIP_TIMING.exploded);
+      machine.send({ type: 'FIST' });
+      await wait(CLIP_TIMING.reassemble);
+      downloadBlob(await clip.stop(), `christmas-tree-${seed}.webm`);
+    } catch (e) {
+      console.warn('Could not record a clip', e);
+    } finally {
+      captureBusyRef.current = false;
+      setCountdown(null);
+      setCaptureActivity(null);
     }
-  }, [appState]);
+  };
+
+  const handleReplayFile = async (file: File) => {
+    try {
+      setReplay(parseRecording(await file.text()));
+      setReplayError(null);
+      setInputSource('REPLAY');
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const stopReplay = () => {
+    setReplay(null);
+    setInputSource(camera.stream ? 'HAND' : detectFallbackKind());
+  };
+
+  const retryCamera = () => {
+    camera.start().then(ok => {
+      if (ok) setInputSource('HAND');
+    });
+  };
+
+  const handlePhotoHover = useCallback((id: number | null) => {
+    hoveredPhotoIdRef.current = id;
+  }, []);
 
   const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
-      const newPhotos: string[] = [];
-      Array.from(event.target.files).forEach(file => {
-        newPhotos.push(URL.createObjectURL(file as Blob));
-      });
-      
-      setPhotos(prev => {
-          // If this is the first custom upload, clear the random defaults
-          if (!hasCustomPhotos) {
-              return newPhotos;
-          }
-          // Otherwise append to the existing custom list
-          return [...prev, ...newPhotos];
+      library.add(Array.from(event.target.files)).then(added => setEditingPhotoIds(added.map(photo => photo.id)));
+      setImportedPhotos(null);
+      // Allow picking the same file again after removing it
+      event.target.value = '';
+    }
+  };
+
+  // Rejections are shown in the Shape panel
+  const handleMaskUpload = async (file: File) => {
+    setSilhouetteMask(await createImageMask(file));
+  };
+
+  // An import with a built-in's id becomes a custom copy rather than hiding the original
+  const handleThemeImport = (imported: Theme) => {
+    const isBuiltIn = BUILT_IN_THEMES.some(t => t.id === imported.id);
+    const next = isBuiltIn ? { ...imported, id: `${imported.id}-custom` } : imported;
+    setCustomThemes(list => [...list.filter(t => t.id !== next.id), next]);
+    setTheme(next);
+  };
+
+  const currentConfig = (): TreeConfig => createTreeConfig({
+    seed,
+    layout,
+    theme,
+    ornamentCount,
+    weather,
+    greeting: captureSettings.showGreeting ? captureSettings.greeting : '',
+    photos
+  });
+
+  // Returns how many of the config's library photos this browser doesn't have
+  const applyConfig = (config: TreeConfig) => {
+    setSeed(config.seed);
+    setLayout(config.layout);
+    if (typeof config.theme === 'string') setTheme(getBuiltInTheme(config.theme) ?? DEFAULT_THEME);
+    else handleThemeImport(config.theme);
+    setOrnamentCount(config.ornamentCount);
+    setWeather(config.weather);
+    setCaptureSettings(settings => ({ ...settings, greeting: config.greeting || settings.greeting, showGreeting: config.greeting !== '' }));
+    const { photos: resolved, missing } = resolvePhotoRefs(config.photos, library.photos);
+    setImportedPhotos(resolved.length > 0 ? resolved : null);
+    return missing;
+  };
+
+  const exportConfig = () => {
+    downloadBlob(new Blob([serializeTreeConfig(currentConfig())], { type: 'application/json' }), `christmas-tree-${seed}.json`);
+  };
+
+  const importConfig = async (file: File) => {
+    try {
+      const missing = applyConfig(parseTreeConfig(await file.text()));
+      setShareStatus({
+        message: missing > 0 ? `Tree loaded, but ${missing} library photo(s) are not in this browser` : 'Tree loaded',
+        error: false
       });
-      setHasCustomPhotos(true);
+    } catch (e) {
+      setShareStatus({ message: e instanceof Error ? e.message : String(e), error: true });
     }
   };
 
+  const copyConfigLink = async () => {
+    try {
+      const url = new URL(window.location.href);
+      url.hash = await encodeTreeConfigHash(currentConfig());
+      await navigator.clipboard.writeText(url.toString());
+      setShareStatus({ message: 'Link copied', error: false });
+    } catch (e) {
+      setShareStatus({ message: `Could not copy the link: ${e instanceof Error ? e.message : e}`, error: true });
+    }
+  };
+
+  // Only the initial URL is read; a bad link leaves the default tree and explains why
+  useEffect(() => {
+    decodeTreeConfigHash(window.location.hash)
+      .then(config => {
+        if (!config) return;
+        applyConfig(config);
+        clearConfigFromUrl();
+      })
+      .catch(e => {
+        setShareStatus({ message: e instanceof Error ? e.message : String(e), error: true });
+        setShowShare(true);
+        clearConfigFromUrl();
+      });
+  }, []);
+
+  useEffect(() => {
+    audio.configure(audioSettings);
+  }, [audio, audioSettings]);
+
+  useEffect(() => {
+    audio.setHand(gesture.handPosition.x, gesture.handPosition.y, gesture.tracked);
+  }, [audio, gesture]);
+
+  // State changes get their sound effect; a celebration gets the jingle
+  useEffect(() => machine.subscribe((snapshot, event, previous) => {
+    if (snapshot.state !== previous.state) audio.transition(previous.state, snapshot.state);
+    if (event.type === 'CELEBRATE') audio.jingle();
+  }), [machine, audio]);
+
+  useEffect(() => () => audio.close(), [audio]);
+
+  // Asks for the camera first; on failure the start screen explains why and offers the fallback input
   const startExperience = () => {
+      audio.start();
+      camera.start().then(ok => {
+          if (!ok) return;
+          setInputSource('HAND');
+          setPermissionGranted(true);
+      });
+  };
+
+  const startWithoutCamera = () => {
+      audio.start();
+      setInputSource(detectFallbackKind());
       setPermissionGranted(true);
   };
 
+  const handLost = permissionGranted && inputSource === 'HAND' && camera.status === 'READY' && !gesture.tracked;
+
+  // The slideshow waits for the tracked hand to go away; keyboard, mouse and touch never do
+  const photoIds = useMemo(() => photos.map((_, i) => photoParticleId(i)), [photos]);
+  const unattended = permissionGranted && (inputSource === 'HAND' || inputSource === 'REPLAY')
+    && !gesture.tracked && captureActivity === null;
+  const slideshowRunning = useSlideshow(machine, slideshowSettings, photoIds, unattended);
+
   return (
     <div className="relative w-full h-full bg-black overflow-hidden">
       
       {/* 3D Scene Layer */}
       {permissionGranted && (
-          <div className="absolute inset-0 z-0">
-            <ChristmasScene appState={appState} gesture={gesture} photos={photos} />
+          <div ref={setSceneLayer} className={`absolute inset-0 z-0 ${inputSource === 'TOUCH' ? 'touch-none' : ''}`}>
+            <ChristmasScene 
+              machine={machine} 
+              gesture={gesture} 
+              photos={photos} 
+              photosByDate={photosByDate}
+              seed={seed}
+              layout={layout}
+              mask={silhouetteMask}
+              theme={theme}
+              ornamentCount={ornamentCount}
+              weather={weather}
+              quality={quality}
+              capture={capture}
+              onPhotoHover={handlePhotoHover}
+            />
           </div>
       )}
 
       {/* Logic Layer */}
-      {permissionGranted && <HandManager onGestureUpdate={handleGestureUpdate} />}
+      {permissionGranted && (inputSource === 'HAND' ? (
+          camera.stream && (
+              <HandManager 
+                stream={camera.stream}
+                onGestureUpdate={handleGestureUpdate} 
+                onGestureEvent={handleGestureEvent} 
+                onFrame={handleHandFrame}
+                onError={handleInputError} 
+                modelComplexity={qualitySettings.modelComplexity}
+              />
+          )
+      ) : inputSource === 'REPLAY' ? (
+          replay && (
+              <ReplayInput recording={replay} onGestureUpdate={handleGestureUpdate} onGestureEvent={handleGestureEvent} />
+          )
+      ) : (
+          <FallbackInput 
+            kind={inputSource} 
+            onGestureUpdate={handleGestureUpdate} 
+            onGestureEvent={handleGestureEvent} 
+            touchSurface={sceneLayer}
+          />
+      ))}
+
+      {/* Hand Cursor - shows where photo picking is aimed while exploded */}
+      {permissionGranted && appState === AppState.EXPLODED && gesture.tracked && (
+          <div 
+            className="absolute z-20 w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-yellow-300 bg-yellow-300/20 shadow-[0_0_15px_rgba(255,215,0,0.6)] pointer-events-none transition-[left,top] duration-75"
+            style={{ left: `${gesture.handPosition.x * 100}%`, top: `${gesture.handPosition.y * 100}%` }}
+          />
+      )}
+
+      {/* Hand Lost - fades in only after a moment, so single dropped frames don't flash it */}
+      {permissionGranted && inputSource === 'HAND' && (
+          <div className={`absolute z-20 top-1/3 left-1/2 -translate-x-1/2 pointer-events-none bg-black/60 border border-yellow-500/30 rounded-lg px-4 py-2 text-yellow-100 text-xs tracking-widest uppercase transition-opacity duration-500 ${handLost && !slideshowRunning ? 'opacity-100 delay-700' : 'opacity-0'}`}>
+              ✋ Hand lost - raise your hand where the camera can see it
+          </div>
+      )}
+
+      {slideshowRunning && (
+          <div className="absolute z-20 top-6 left-1/2 -translate-x-1/2 pointer-events-none bg-black/60 border border-yellow-500/30 rounded-full px-4 py-1 text-yellow-100/80 text-xs tracking-widest uppercase animate-pulse">
+              Slideshow · make any gesture to take over
+          </div>
+      )}
+
+      {/* Capture Countdown */}
+      {countdown !== null && (
+          <div key={countdown} className="absolute z-30 inset-0 flex items-center justify-center pointer-events-none">
+              <span className="text-9xl font-serif text-yellow-300 drop-shadow-[0_0_30px_rgba(255,215,0,0.8)] animate-ping [animation-iteration-count:1] [animation-duration:1s]">
+                  {countdown}
+              </span>
+          </div>
+      )}
+      {captureActivity === 'RECORDING' && (
+          <div className="absolute z-30 top-6 left-1/2 -translate-x-1/2 pointer-events-none flex items-center gap-2 bg-black/60 border border-red-500/50 rounded-full px-3 py-1 text-red-300 text-xs tracking-widest">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" /> REC
+          </div>
+      )}
+
+      {/* Camera Preview */}
+      {permissionGranted && showPreview && inputSource === 'HAND' && camera.stream && (
+          <div className="absolute z-20 bottom-6 left-6 pointer-events-none">
+              <CameraPreview stream={camera.stream} frameRef={handFrameRef} />
+          </div>
+      )}
 
       {/* UI Layer */}
       <div className="absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6">
@@ -99,6 +543,20 @@ const App: React.FC = () => {
             <p className="text-yellow-100/80 mt-1 font-light tracking-widest text-xs md:text-sm uppercase">
               Gesture Controlled Experience
             </p>
+            {permissionGranted && (
+                <div className="pointer-events-auto mt-2 flex items-center gap-2 text-[10px] md:text-xs font-mono text-yellow-100/50">
+                    <span>TREE #{seed}</span>
+                    <button
+                        onClick={() => setSeed(randomSeed())}
+                        className="px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors"
+                        title="Grow a new tree"
+                    >
+                        🎲
+                    </button>
+                    <QualityOverlay quality={quality} />
+                    <AudioControls settings={audioSettings} onChange={setAudioSettings} />
+                </div>
+            )}
           </div>
 
           <div className="pointer-events-auto flex flex-col items-end gap-2">
@@ -107,6 +565,171 @@ const App: React.FC = () => {
                 <span>Add Photos</span>
                 <input type="file" multiple accept="image/*" className="hidden" onChange={handlePhotoUpload} />
              </label>
+
+             {permissionGranted && (
+                 <button
+                    onClick={() => setShowLayout(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Shape
+                 </button>
+             )}
+
+             {showLayout && (
+                 <LayoutPanel
+                    layout={layout}
+                    hasMask={silhouetteMask !== null}
+                    ornamentCount={ornamentCount}
+                    autoOrnamentCount={qualitySettings.ornamentCount}
+                    onChange={setLayout}
+                    onOrnamentCountChange={setOrnamentCount}
+                    onMaskUpload={handleMaskUpload}
+                    onClose={() => setShowLayout(false)}
+                 />
+             )}
+
+             {permissionGranted && (
+                 <button
+                    onClick={() => setShowTheme(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Theme
+                 </button>
+             )}
+
+             {showTheme && (
+                 <ThemePanel
+                    theme={theme}
+                    themes={[...BUILT_IN_THEMES, ...customThemes]}
+                    onSelect={setTheme}
+                    onImport={handleThemeImport}
+                    onClose={() => setShowTheme(false)}
+                 />
+             )}
+
+             {permissionGranted && (
+                 <button
+                    onClick={() => setShowWeather(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Weather
+                 </button>
+             )}
+
+             {showWeather && (
+                 <WeatherPanel settings={weather} onChange={setWeather} onClose={() => setShowWeather(false)} />
+             )}
+
+             {permissionGranted && (
+                 <button
+                    onClick={() => setShowCapture(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Capture
+                 </button>
+             )}
+
+             {showCapture && (
+                 <CapturePanel
+                    settings={captureSettings}
+                    activity={captureActivity}
+                    onChange={setCaptureSettings}
+                    onSnapshot={takeSnapshot}
+                    onRecordClip={recordClip}
+                    onClose={() => setShowCapture(false)}
+                 />
+             )}
+
+             {permissionGranted && (
+                 <button
+                    onClick={() => setShowSlideshow(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Slideshow
+                 </button>
+             )}
+
+             {showSlideshow && (
+                 <SlideshowPanel
+                    settings={slideshowSettings}
+                    onChange={setSlideshowSettings}
+                    onClose={() => setShowSlideshow(false)}
+                 />
+             )}
+
+             {permissionGranted && (
+                 <button
+                    onClick={() => setShowShare(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Share
+                 </button>
+             )}
+
+             {showShare && (
+                 <SharePanel
+                    status={shareStatus}
+                    onExport={exportConfig}
+                    onImport={importConfig}
+                    onCopyLink={copyConfigLink}
+                    onClose={() => setShowShare(false)}
+                 />
+             )}
+
+             {permissionGranted && (
+                 <button
+                    onClick={() => setShowCamera(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Camera
+                 </button>
+             )}
+
+             {showCamera && (
+                 <CameraPanel
+                    camera={camera}
+                    showPreview={showPreview}
+                    onTogglePreview={setShowPreview}
+                    onRetry={retryCamera}
+                    recording={recording}
+                    replaying={inputSource === 'REPLAY'}
+                    replayError={replayError}
+                    onToggleRecording={toggleRecording}
+                    onReplayFile={handleReplayFile}
+                    onStopReplay={stopReplay}
+                    onClose={() => setShowCamera(false)}
+                 />
+             )}
+
+             {hasCustomPhotos && (
+                 <button
+                    onClick={() => setShowLibrary(v => !v)}
+                    className="bg-black/60 hover:bg-black/80 text-yellow-100 px-3 py-1 rounded-lg border border-yellow-500/30 text-xs tracking-widest uppercase transition-all"
+                 >
+                    Manage ({library.photos.length})
+                 </button>
+             )}
+
+             {showLibrary && hasCustomPhotos && (
+                 <PhotoLibraryPanel
+                    photos={library.photos}
+                    byDate={photosByDate}
+                    onRemove={library.remove}
+                    onMove={library.move}
+                    onEdit={id => setEditingPhotoIds([id])}
+                    onByDateChange={setPhotosByDate}
+                    onClear={library.clear}
+                    onClose={() => setShowLibrary(false)}
+                 />
+             )}
+
+             {editingPhotos.length > 0 && (
+                 <PhotoDetailsPanel
+                    photos={editingPhotos}
+                    onChange={library.setMeta}
+                    onClose={() => setEditingPhotoIds([])}
+                 />
+             )}
              
              {/* Hint for customization */}
              {permissionGranted && !hasCustomPhotos && (
@@ -133,9 +756,10 @@ const App: React.FC = () => {
                     <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
                         <button 
                             onClick={startExperience}
-                            className="w-full sm:w-auto bg-gradient-to-r from-yellow-600 to-yellow-400 text-black font-bold py-3 px-8 rounded-xl hover:scale-105 transition-transform shadow-[0_0_20px_rgba(255,215,0,0.5)] active:scale-95"
+                            disabled={camera.status === 'STARTING'}
+                            className="w-full sm:w-auto bg-gradient-to-r from-yellow-600 to-yellow-400 text-black font-bold py-3 px-8 rounded-xl hover:scale-105 transition-transform shadow-[0_0_20px_rgba(255,215,0,0.5)] active:scale-95 disabled:opacity-60 disabled:hover:scale-100"
                         >
-                            Start Experience
+                            {camera.status === 'STARTING' ? 'Waiting for Camera…' : camera.status === 'ERROR' ? 'Try Again' : 'Start Experience'}
                         </button>
                         
                         <div className="text-gray-500 text-sm font-serif italic">- or -</div>
@@ -155,29 +779,52 @@ const App: React.FC = () => {
                             />
                         </label>
                     </div>
+
+                    {camera.status === 'ERROR' && camera.error && (
+                        <div className="mt-6 text-sm text-red-300">
+                            <p>{CAMERA_ERROR_MESSAGES[camera.error]}</p>
+                            <button onClick={startWithoutCamera} className="mt-2 text-yellow-100/70 underline hover:text-yellow-300">
+                                Continue without camera
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
         ) : (
             /* Controls Overlay */
-            <div className="mb-4">
+            <div className="mb-4 flex flex-col items-center gap-3">
                 <div className="flex gap-4 md:gap-8 justify-center items-end text-xs md:text-sm text-yellow-100/60 font-mono">
                     <div className={`flex flex-col items-center gap-2 transition-all duration-500 ${gesture.isFist ? 'opacity-100 text-yellow-300 scale-110' : 'opacity-40'}`}>
                         <div className="w-12 h-12 border border-current rounded-full flex items-center justify-center bg-white/5 text-xl">✊</div>
                         <span>ASSEMBLE</span>
+                        {CONTROL_HINTS[inputSource].FIST && <span className="text-[10px] opacity-70">{CONTROL_HINTS[inputSource].FIST}</span>}
                     </div>
                     <div className={`flex flex-col items-center gap-2 transition-all duration-500 ${gesture.isOpenPalm ? 'opacity-100 text-yellow-300 scale-110' : 'opacity-40'}`}>
                         <div className="w-12 h-12 border border-current rounded-full flex items-center justify-center bg-white/5 text-xl">🖐</div>
                         <span>EXPLODE</span>
+                        {CONTROL_HINTS[inputSource].OPEN_PALM && <span className="text-[10px] opacity-70">{CONTROL_HINTS[inputSource].OPEN_PALM}</span>}
                     </div>
                     <div className={`flex flex-col items-center gap-2 transition-all duration-500 ${gesture.isPinching ? 'opacity-100 text-yellow-300 scale-110' : 'opacity-40'}`}>
                         <div className="w-12 h-12 border border-current rounded-full flex items-center justify-center bg-white/5 text-xl">👌</div>
-                        <span>FOCUS</span>
+                        {/* Pinching the assembled tree cycles the lights instead of focusing */}
+                        <span>{appState === AppState.TREE ? 'LIGHTS' : 'FOCUS'}</span>
+                        {appState === AppState.TREE && <span className="text-[10px] opacity-70">{lightPattern.replace('_', ' ').toLowerCase()} · hold for photo</span>}
+                        {CONTROL_HINTS[inputSource].PINCH && <span className="text-[10px] opacity-70">{CONTROL_HINTS[inputSource].PINCH}</span>}
+                    </div>
+                    <div className={`flex flex-col items-center gap-2 transition-all duration-500 ${bothPalmsOpen ? 'opacity-100 text-yellow-300 scale-110' : 'opacity-40'}`}>
+                        <div className="w-12 h-12 border border-current rounded-full flex items-center justify-center bg-white/5 text-xl">🙌</div>
+                        <span>CELEBRATE</span>
+                        {CONTROL_HINTS[inputSource].BOTH_PALMS && <span className="text-[10px] opacity-70">{CONTROL_HINTS[inputSource].BOTH_PALMS}</span>}
                     </div>
                      <div className={`flex flex-col items-center gap-2 transition-all duration-500 ${appState === AppState.EXPLODED ? 'opacity-100 text-yellow-300 scale-110' : 'opacity-40'}`}>
                         <div className="w-12 h-12 border border-current rounded-full flex items-center justify-center bg-white/5 text-xl">↔</div>
                         <span>MOVE</span>
+                        {CONTROL_HINTS[inputSource].MOVE && <span className="text-[10px] opacity-70">{CONTROL_HINTS[inputSource].MOVE}</span>}
                     </div>
                 </div>
+                <div className="text-[10px] md:text-xs uppercase tracking-widest text-yellow-100/50 font-mono">
+                    Input: <span className="text-yellow-300/80">{INPUT_LABELS[inputSource]}</span>
+                </div>
             </div>
         )}
       </div>
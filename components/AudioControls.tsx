@@ -0,0 +1,34 @@
+import React from 'react';
+import { AudioSettings } from '../types';
+
+interface Props {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+}
+
+// Mute toggle and volume for the soundtrack, next to the quality picker
+const AudioControls: React.FC<Props> = ({ settings, onChange }) => (
+  <div className="pointer-events-auto flex items-center gap-2 bg-black/60 border border-yellow-500/20 rounded px-2 py-1 text-[10px] font-mono text-yellow-100/70">
+    <button
+      onClick={() => onChange({ ...settings, muted: !settings.muted })}
+      className="hover:text-yellow-300"
+      title={settings.muted ? 'Unmute' : 'Mute'}
+      aria-label={settings.muted ? 'Unmute' : 'Mute'}
+    >
+      {settings.muted || settings.volume === 0 ? '🔇' : '🔊'}
+    </button>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={settings.volume}
+      disabled={settings.muted}
+      onChange={e => onChange({ ...settings, volume: Number(e.target.value) })}
+      className="w-16 accent-yellow-400 disabled:opacity-30"
+      aria-label="Volume"
+    />
+  </div>
+);
+
+export default AudioControls;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { CameraController } from '../hooks/useCamera';
+import { CAMERA_ERROR_MESSAGES, CAMERA_RESOLUTIONS, CameraResolution } from '../utils/camera';
+
+interface Props {
+  camera: CameraController;
+  showPreview: boolean;
+  onTogglePreview: (show: boolean) => void;
+  // Reopens the camera and switches back to hand tracking
+  onRetry: () => void;
+  // Landmark recording for reproducing gesture bugs, and playing recordings back
+  recording: boolean;
+  replaying: boolean;
+  replayError: string | null;
+  onToggleRecording: () => void;
+  onReplayFile: (file: File) => void;
+  onStopReplay: () => void;
+  onClose: () => void;
+}
+
+const RESOLUTIONS = Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[];
+
+// Which webcam to track with, at what resolution, and whether to show what it sees.
+// Also records tracked landmarks to a file and plays recordings back.
+const CameraPanel: React.FC<Props> = ({
+  camera, showPreview, onTogglePreview, onRetry,
+  recording, replaying, replayError, onToggleRecording, onReplayFile, onStopReplay, onClose
+}) => {
+  const { status, error, devices, deviceId, resolution, stream } = camera;
+  const settings = stream?.getVideoTracks()[0]?.getSettings();
+
+  return (
+    <div className="w-64 flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+        <span className="font-bold tracking-widest uppercase">Camera</span>
+        <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+      </div>
+
+      <div className="p-3 flex flex-col gap-3">
+        {status === 'ERROR' && error && (
+          <div className="flex flex-col gap-2">
+            <span className="text-red-300">{CAMERA_ERROR_MESSAGES[error]}</span>
+            <button
+              onClick={onRetry}
+              className="self-start px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+        {status === 'STARTING' && <span className="text-yellow-100/60">Starting camera…</span>}
+        {status === 'IDLE' && (
+          <button
+            onClick={onRetry}
+            className="self-start px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors"
+          >
+            Use camera
+          </button>
+        )}
+
+        <label className="flex flex-col gap-1">
+          <span>Device</span>
+          <select
+            value={deviceId ?? ''}
+            disabled={devices.length === 0}
+            onChange={e => camera.selectDevice(e.target.value)}
+            className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100 disabled:opacity-30"
+          >
+            {devices.length === 0 && <option value="">Default camera</option>}
+            {devices.map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${i + 1}`}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between">
+            <span>Resolution</span>
+            {settings?.width && settings.height && (
+              <span className="font-mono text-yellow-100/60">{settings.width}×{settings.height}</span>
+            )}
+          </span>
+          <select
+            value={resolution}
+            onChange={e => camera.setResolution(e.target.value as CameraResolution)}
+            className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100"
+          >
+            {RESOLUTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between">
+          <span>Preview with landmarks</span>
+          <input
+            type="checkbox"
+            checked={showPreview}
+            disabled={!stream}
+            onChange={e => onTogglePreview(e.target.checked)}
+            className="accent-yellow-400 disabled:opacity-30"
+          />
+        </label>
+      </div>
+
+      <div className="px-3 py-2 border-t border-yellow-500/20 flex flex-col gap-2">
+        <div className="flex justify-between items-center">
+          <span className="uppercase tracking-widest">Landmarks</span>
+          <div className="flex gap-2">
+            <button
+              onClick={onToggleRecording}
+              disabled={!recording && (!stream || replaying)}
+              className={`hover:text-yellow-300 disabled:opacity-30 ${recording ? 'text-red-400 animate-pulse' : ''}`}
+              title={recording ? 'Stop and download the recording' : 'Record tracked landmarks to a file'}
+            >
+              {recording ? '■ Save' : '● Record'}
+            </button>
+            {replaying ? (
+              <button onClick={onStopReplay} className="hover:text-yellow-300">Stop replay</button>
+            ) : (
+              <label className={`hover:text-yellow-300 ${recording ? 'pointer-events-none opacity-30' : 'cursor-pointer'}`}>
+                Replay…
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) onReplayFile(file);
+                  }}
+                />
+              </label>
+            )}
+          </div>
+        </div>
+        {replayError && <span className="text-red-300 break-words">{replayError}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default CameraPanel;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { HandFrame } from '../types';
+
+interface Props {
+  stream: MediaStream;
+  // Latest landmarks, written by HandManager on every frame without re-rendering
+  frameRef: React.RefObject<HandFrame[]>;
+}
+
+// Bones between MediaPipe's 21 hand landmarks
+const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [5, 9], [9, 10], [10, 11], [11, 12],
+  [9, 13], [13, 14], [14, 15], [15, 16],
+  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20]
+];
+
+const HAND_COLORS: Record<HandFrame['handedness'], string> = { Left: '#fde047', Right: '#f87171' };
+
+// Small mirrored camera feed in the corner with the tracked hands drawn over it,
+// to check lighting and framing
+const CameraPreview: React.FC<Props> = ({ stream, frameRef }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.play().catch(e => console.warn('Camera preview failed to play', e));
+    return () => {
+      video.srcObject = null;
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    let frameId = 0;
+
+    const draw = () => {
+      const { width, height } = canvas;
+      context.clearRect(0, 0, width, height);
+      (frameRef.current ?? []).forEach(({ landmarks, handedness }) => {
+        context.strokeStyle = context.fillStyle = HAND_COLORS[handedness];
+        context.lineWidth = 2;
+        context.beginPath();
+        HAND_CONNECTIONS.forEach(([a, b]) => {
+          context.moveTo(landmarks[a].x * width, landmarks[a].y * height);
+          context.lineTo(landmarks[b].x * width, landmarks[b].y * height);
+        });
+        context.stroke();
+        landmarks.forEach(({ x, y }) => {
+          context.beginPath();
+          context.arc(x * width, y * height, 2.5, 0, Math.PI * 2);
+          context.fill();
+        });
+      });
+      frameId = requestAnimationFrame(draw);
+    };
+    frameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frameId);
+  }, [frameRef]);
+
+  return (
+    <div className="relative w-48 aspect-[4/3] rounded-lg overflow-hidden border border-yellow-500/30 bg-black shadow-[0_0_20px_rgba(255,215,0,0.15)] -scale-x-100">
+      <video ref={videoRef} className="absolute inset-0 w-full h-full object-fill" playsInline muted />
+      <canvas ref={canvasRef} width={320} height={240} className="absolute inset-0 w-full h-full" />
+    </div>
+  );
+};
+
+export default CameraPreview;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { PhotoMeta } from '../types';
+
+interface Props {
+  meta: PhotoMeta;
+}
+
+export const hasCaption = (meta: PhotoMeta | undefined): meta is PhotoMeta =>
+  !!meta && !!(meta.caption || meta.author || meta.takenAt !== undefined);
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// The card under a focused photo: caption, then when it was taken and by whom.
+// Positioned by the scene with its top edge centred under the photo's frame.
+const CaptionCard: React.FC<Props> = ({ meta }) => (
+  <div className="-translate-x-1/2 mt-2 w-72 flex flex-col items-center gap-1 px-4 py-2 bg-black/70 border border-yellow-500/40 rounded-lg backdrop-blur-md text-center shadow-[0_0_20px_rgba(255,215,0,0.2)] transition-opacity duration-700 delay-500 opacity-100 starting:opacity-0 pointer-events-none select-none">
+    {meta.caption && <h3 className="text-lg leading-snug text-yellow-100 break-words">{meta.caption}</h3>}
+    {(meta.takenAt !== undefined || meta.author) && (
+      <p className="text-[10px] tracking-widest uppercase text-yellow-300/70">
+        {[meta.takenAt !== undefined ? formatDate(meta.takenAt) : null, meta.author && `by ${meta.author}`].filter(Boolean).join(' · ')}
+      </p>
+    )}
+  </div>
+);
+
+export default CaptionCard;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { SNAPSHOT_HEIGHTS, SnapshotResolution, pickVideoType } from '../utils/capture';
+
+export interface CaptureSettings {
+  resolution: SnapshotResolution;
+  greeting: string;
+  showGreeting: boolean;
+}
+
+export type CaptureActivity = 'COUNTDOWN' | 'SNAPSHOT' | 'RECORDING' | null;
+
+interface Props {
+  settings: CaptureSettings;
+  activity: CaptureActivity;
+  onChange: (settings: CaptureSettings) => void;
+  onSnapshot: () => void;
+  onRecordClip: () => void;
+  onClose: () => void;
+}
+
+const RESOLUTIONS = Object.keys(SNAPSHOT_HEIGHTS) as SnapshotResolution[];
+
+const ACTIVITY_LABELS: Record<Exclude<CaptureActivity, null>, string> = {
+  COUNTDOWN: 'Get ready…',
+  SNAPSHOT: 'Saving picture…',
+  RECORDING: 'Recording clip…'
+};
+
+// Save the tree as a picture or a short explode-and-reassemble clip
+const CapturePanel: React.FC<Props> = ({ settings, activity, onChange, onSnapshot, onRecordClip, onClose }) => {
+  const canRecord = pickVideoType() !== null;
+
+  return (
+    <div className="w-64 flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+        <span className="font-bold tracking-widest uppercase">Capture</span>
+        <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+      </div>
+
+      <div className="p-3 flex flex-col gap-3">
+        <label className="flex flex-col gap-1">
+          <span>Picture size</span>
+          <select
+            value={settings.resolution}
+            onChange={e => onChange({ ...settings, resolution: e.target.value as SnapshotResolution })}
+            className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100"
+          >
+            {RESOLUTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between">
+          <span>Greeting</span>
+          <input
+            type="checkbox"
+            checked={settings.showGreeting}
+            onChange={e => onChange({ ...settings, showGreeting: e.target.checked })}
+            className="accent-yellow-400"
+          />
+        </label>
+        <input
+          type="text"
+          value={settings.greeting}
+          maxLength={60}
+          disabled={!settings.showGreeting}
+          onChange={e => onChange({ ...settings, greeting: e.target.value })}
+          className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100 disabled:opacity-30"
+        />
+      </div>
+
+      <div className="px-3 py-2 border-t border-yellow-500/20 flex flex-col gap-2">
+        <div className="flex justify-between">
+          <button
+            onClick={onSnapshot}
+            disabled={activity !== null}
+            className="px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors disabled:opacity-30"
+          >
+            📸 Picture
+          </button>
+          <button
+            onClick={onRecordClip}
+            disabled={activity !== null || !canRecord}
+            title={canRecord ? undefined : 'Video recording is not supported in this browser'}
+            className="px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors disabled:opacity-30"
+          >
+            🎥 Clip
+          </button>
+        </div>
+        <span className="text-yellow-100/50">
+          {activity ? ACTIVITY_LABELS[activity] : 'Or hold a pinch while the tree is assembled'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default CapturePanel;
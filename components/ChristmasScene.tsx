@@ -1,268 +1,334 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
-import { Environment, Stars, Float } from '@react-three/drei';
+import { Stars, Float } from '@react-three/drei';
 import * as THREE from 'three';
-import { AppState, HandGesture, ParticleData } from '../types';
-import { generateTreeLayout, COLORS } from '../utils/math';
+import { AppState, HandGesture, LayoutSelection, PhotoSource, Theme, WeatherSettings } from '../types';
+import { generateTreeLayout, photoParticleId, stackPhotosByDate } from '../utils/math';
+import { ShapeMask } from '../utils/shapeMask';
+import { EnvironmentPreset } from '../utils/themes';
+import PhotoCloud from './PhotoCloud';
+import OrnamentGroup from './OrnamentGroup';
+import TreeLights from './TreeLights';
+import EnvironmentMap from './EnvironmentMap';
+import Snowfall, { GROUND_Y } from './Snowfall';
+import { AppContext, AppMachine } from '../utils/appMachine';
+import { useMachineSnapshot } from '../hooks/useMachineSnapshot';
+import { QualityManager } from '../utils/qualityManager';
+import { useQualitySettings } from '../hooks/useQuality';
+import { SceneCapture } from '../utils/capture';
 
 interface SceneProps {
-  appState: AppState;
+  machine: AppMachine;
   gesture: HandGesture;
-  photos: string[];
+  photos: PhotoSource[];
+  photosByDate: boolean; // Oldest photos at the bottom of the tree, newest at the top
+  seed: string; // Drives every random choice in the layout
+  layout: LayoutSelection;
+  mask: ShapeMask | null; // Silhouette for the image layout
+  theme: Theme;
+  ornamentCount: number | null; // Fixed count from the tree config; null follows the quality tier
+  weather: WeatherSettings;
+  quality: QualityManager;
+  capture: SceneCapture;
+  onPhotoHover: (id: number | null) => void;
 }
 
-// Reusable component for a specific shape group
-const ParticleGroup: React.FC<{ 
-  data: ParticleData[], 
-  appState: AppState, 
-  gesture: HandGesture,
-  geometry: React.ReactNode 
-}> = ({ data, appState, gesture, geometry }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
-  
-  // Dummy object for calculating matrices
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  // Use refs for animation smoothing
-  const currentPositions = useRef(data.map(p => p.position.clone()));
-
-  useFrame((state, delta) => {
-    if (!meshRef.current) return;
-
-    let i = 0;
-    for (const particle of data) {
-      let target: THREE.Vector3;
-      let scale = particle.scale;
-
-      // Logic State Machine
-      if (appState === AppState.TREE) {
-        target = particle.treePosition;
-      } else if (appState === AppState.EXPLODED) {
-        target = particle.explodedPosition;
-        
-        // Gentle float noise
-        target = target.clone().add(new THREE.Vector3(
-           Math.sin(state.clock.elapsedTime + particle.id) * 0.5,
-           Math.cos(state.clock.elapsedTime * 0.8 + particle.id) * 0.5,
-           0
-        ));
-      } else { // FOCUS
-        target = particle.explodedPosition.clone().multiplyScalar(1.5); 
-      }
-
-      // Interpolate Position
-      currentPositions.current[i].lerp(target, delta * 3);
-
-      // Apply to Dummy
-      dummy.position.copy(currentPositions.current[i]);
-      
-      // Rotate objects
-      dummy.rotation.x += delta * 0.2;
-      dummy.rotation.y += delta * 0.1;
-      
-      dummy.scale.setScalar(scale);
-      dummy.updateMatrix();
+// Feeds every frame's duration to the quality manager
+const FrameTimeProbe: React.FC<{ quality: QualityManager }> = ({ quality }) => {
+    useFrame((_, delta) => quality.sample(delta * 1000, performance.now()));
+    return null;
+};
 
-      meshRef.current.setMatrixAt(i, dummy.matrix);
-      meshRef.current.setColorAt(i, particle.color);
-      
-      i++;
-    }
-    meshRef.current.instanceMatrix.needsUpdate = true;
-    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
-  });
+// Hands each finished frame to the capture module while it can still be read back.
+// Runs after the effect composer; without one it has to draw the frame itself, since
+// a prioritised frame callback turns off the renderer's automatic drawing.
+const CaptureBridge: React.FC<{ capture: SceneCapture; draws: boolean }> = ({ capture, draws }) => {
+    const gl = useThree(state => state.gl);
+    const get = useThree(state => state.get);
 
-  return (
-    <instancedMesh
-      ref={meshRef}
-      args={[undefined, undefined, data.length]}
-    >
-      {geometry}
-      <meshStandardMaterial 
-        toneMapped={false}
-        roughness={0.3}
-        metalness={0.6}
-        envMapIntensity={1}
-      />
-    </instancedMesh>
-  );
+    useEffect(() => capture.attach({
+        canvas: gl.domElement,
+        size: () => get().size,
+        maxSize: gl.capabilities.maxTextureSize
+    }), [capture, gl, get]);
+
+    useFrame(({ gl, scene, camera }) => {
+        if (draws) gl.render(scene, camera);
+        capture.frameRendered();
+    }, 2);
+    return null;
 };
 
-// Separate component for Photos
-const PhotoCloud: React.FC<{ particles: ParticleData[], appState: AppState, gesture: HandGesture }> = ({ particles, appState, gesture }) => {
-    // Only render if we have particles
-    if (particles.length === 0) return null;
-
-    return (
-        <group>
-            {particles.map((p, index) => (
-                <SinglePhoto key={`photo-${p.id}-${index}`} particle={p} appState={appState} gesture={gesture} />
-            ))}
-        </group>
-    );
+// Tone mapping exposure is set when the renderer is created; keep it in step with the theme
+const Exposure: React.FC<{ value: number }> = ({ value }) => {
+    const gl = useThree(state => state.gl);
+    useEffect(() => {
+        gl.toneMappingExposure = value;
+    }, [gl, value]);
+    return null;
 };
 
-const SinglePhoto: React.FC<{ particle: ParticleData, appState: AppState, gesture: HandGesture }> = ({ particle, appState }) => {
-    const meshRef = useRef<THREE.Mesh>(null);
-    
-    // Load texture manually to avoid Suspense issues in this structure
-    const texture = useMemo(() => {
-        if (!particle.textureUrl) return null;
-        const tex = new THREE.TextureLoader().load(particle.textureUrl);
-        // Ensure standard encoding for consistency
-        tex.colorSpace = THREE.SRGBColorSpace; 
-        return tex;
-    }, [particle.textureUrl]);
+const CAMERA_DISTANCE = 25;
 
-    useFrame((state, delta) => {
-        if (!meshRef.current) return;
+// Tilting the hand or swiping builds up spin that coasts to a stop
+const ROLL_DEADZONE = 0.3; // rad, ignore a resting hand that is only slightly tilted
+const ROLL_ACCELERATION = 4; // rad/s² per radian of tilt past the dead zone
+const SWIPE_IMPULSE = 1.5; // rad/s gained per screen width/s of swipe
+const SPIN_FRICTION = 1.2; // 1/s, how quickly momentum bleeds off
 
-        let target = particle.treePosition;
-        let scale = 1.5;
-        
-        if (appState === AppState.EXPLODED) {
-            target = particle.explodedPosition;
-            // Add gentle floating motion
-            target.add(new THREE.Vector3(0, Math.sin(state.clock.elapsedTime + particle.id) * 0.5, 0));
-        } else if (appState === AppState.FOCUS) {
-             // Example focus logic based on ID
-             const isFocusTarget = (particle.id % 5 === 0); 
-             
-             if (isFocusTarget) {
-                 // Move significantly closer to camera (z=25) and scale up
-                 target = new THREE.Vector3(0, 0, 15);
-                 scale = 6; 
-                 meshRef.current.lookAt(state.camera.position);
-             } else {
-                 // Push others back and shrink slightly
-                 target = particle.explodedPosition.clone().multiplyScalar(1.5);
-                 scale = 1.0; 
-             }
-        }
+// The unattended slideshow circles the tree slowly and bobs gently up and down
+const SLIDESHOW_ORBIT_SPEED = 0.08; // rad/s
+const SLIDESHOW_BOB = { amplitude: 0.25, speed: 0.15 }; // rad of elevation, rad/s of phase
 
-        // Smooth position transition
-        meshRef.current.position.lerp(target, delta * 3);
-        
-        // Smooth scale transition with easing (lower factor = smoother/heavier)
-        meshRef.current.scale.lerp(new THREE.Vector3(scale, scale, scale), delta * 2);
-        
-        // Handle Rotation
-        if (appState === AppState.FOCUS) {
-             const isFocusTarget = (particle.id % 5 === 0);
-             if (isFocusTarget) {
-                 // Already handled in logic block for immediate lookAt, 
-                 // but ensure it sticks if we didn't use lookAt there.
-                 meshRef.current.lookAt(state.camera.position);
-             } else {
-                 meshRef.current.lookAt(0, 0, 30);
-             }
-        } else {
-             // Always face viewer in Tree/Exploded modes
-             meshRef.current.lookAt(0, 0, 30);
-        }
-    });
+const rollAcceleration = (roll: number) =>
+    Math.abs(roll) < ROLL_DEADZONE ? 0 : (roll - Math.sign(roll) * ROLL_DEADZONE) * ROLL_ACCELERATION;
 
-    return (
-        <mesh ref={meshRef} position={particle.treePosition}>
-            {/* Photo Plane - Moved slightly forward to ensure visibility */}
-            <planeGeometry args={[1, 1]} />
-            {texture ? (
-                 <meshBasicMaterial map={texture} side={THREE.DoubleSide} transparent />
-            ) : (
-                 <meshBasicMaterial color="#333" side={THREE.DoubleSide} /> 
-            )}
-            
-            {/* Gold Frame - Moved backward to prevent Z-fighting/occlusion */}
-            {/* Box depth is 0.05. Center at -0.05 means front face is at -0.025, which is behind the photo plane at 0 */}
-            <mesh position={[0, 0, -0.05]}>
-                <boxGeometry args={[1.1, 1.1, 0.05]} />
-                <meshStandardMaterial color={COLORS.GOLD} metalness={0.9} roughness={0.2} />
-            </mesh>
-        </mesh>
-    );
-};
+const coast = (velocity: number, acceleration: number, delta: number) =>
+    (velocity + acceleration * delta) * Math.exp(-SPIN_FRICTION * delta);
+
+type SwipeInfo = AppContext['lastSwipe'];
 
-const CameraController: React.FC<{ appState: AppState, gesture: HandGesture }> = ({ appState, gesture }) => {
+const CameraController: React.FC<{ appState: AppState, gesture: HandGesture, lastSwipe: SwipeInfo }> = ({ appState, gesture, lastSwipe }) => {
     const { camera } = useThree();
+    const target = useMemo(() => new THREE.Vector3(), []);
+    // Two-handed zoom: the hand distance when both hands appeared is the baseline
+    const zoom = useRef(1);
+    const zoomStart = useRef<{ distance: number, zoom: number } | null>(null);
+    // Orbit around the exploded cloud; azimuth in radians around the y axis
+    const orbit = useRef({ azimuth: 0, velocity: 0, elevation: 0 });
+
+    useEffect(() => {
+        if (lastSwipe && appState === AppState.EXPLODED) {
+            orbit.current.velocity -= lastSwipe.velocity * SWIPE_IMPULSE;
+        }
+        // Only react to new swipes, not to state changes
+    }, [lastSwipe]);
     
     useFrame((state, delta) => {
+        const twoHand = gesture.twoHand;
+        if (twoHand && twoHand.distance > 0.01) {
+            if (!zoomStart.current) zoomStart.current = { distance: twoHand.distance, zoom: zoom.current };
+            // Hands moving apart zoom in, moving together zoom out
+            const next = zoomStart.current.zoom * twoHand.distance / zoomStart.current.distance;
+            zoom.current = THREE.MathUtils.clamp(next, 0.5, 2.5);
+        } else {
+            zoomStart.current = null;
+        }
+        const distance = CAMERA_DISTANCE / zoom.current;
+        const o = orbit.current;
+
         if (appState === AppState.EXPLODED) {
-           const targetX = (gesture.handPosition.x - 0.5) * 8;
-           const targetY = (gesture.handPosition.y - 0.5) * 8;
-           
-           camera.position.x += (targetX - camera.position.x) * delta * 2;
-           camera.position.y += (targetY - camera.position.y) * delta * 2;
+           const roll = gesture.hands.length > 0 ? gesture.rotation : 0;
+           o.velocity = coast(o.velocity, -rollAcceleration(roll), delta);
+           o.azimuth += o.velocity * delta;
+           // Raising or lowering the hand tilts the orbit up or down; level out once it's lost
+           const elevation = gesture.tracked ? THREE.MathUtils.clamp((0.5 - gesture.handPosition.y) * 1.2, -0.6, 0.6) : 0;
+           o.elevation += (elevation - o.elevation) * delta * 2;
+
+           target.setFromSphericalCoords(distance, Math.PI / 2 - o.elevation, o.azimuth);
+           camera.position.lerp(target, delta * 2);
+           camera.lookAt(0, 0, 0);
+        } else if (appState === AppState.SLIDESHOW) {
+           o.azimuth += SLIDESHOW_ORBIT_SPEED * delta;
+           o.elevation = Math.sin(state.clock.elapsedTime * SLIDESHOW_BOB.speed) * SLIDESHOW_BOB.amplitude;
+           target.setFromSphericalCoords(distance, Math.PI / 2 - o.elevation, o.azimuth);
+           camera.position.lerp(target, delta);
            camera.lookAt(0, 0, 0);
-        } else if (appState === AppState.TREE) {
-            camera.position.lerp(new THREE.Vector3(0, 0, 25), delta);
-            camera.lookAt(0, 0, 0);
+        } else {
+            // Pick the orbit up from wherever the camera is when the cloud next explodes
+            o.azimuth = Math.atan2(camera.position.x, camera.position.z);
+            o.elevation = 0;
+            o.velocity = 0;
+
+            if (appState === AppState.TREE) {
+                camera.position.lerp(target.set(0, 0, distance), delta);
+                camera.lookAt(0, 0, 0);
+            }
         }
     });
     return null;
 }
 
-const ChristmasScene: React.FC<SceneProps> = ({ appState, gesture, photos }) => {
-  const ornamentCount = 400;
-  // Memoize ornaments so they don't regenerate
-  const ornaments = useMemo(() => generateTreeLayout(ornamentCount, []), []);
+// Spins its children around the tree's axis: hand tilt and swipes in TREE mode with
+// momentum, and directly when both hands rotate around each other
+const TreeSpinner: React.FC<{ 
+  appState: AppState, 
+  gesture: HandGesture, 
+  lastSwipe: SwipeInfo, 
+  children: React.ReactNode 
+}> = ({ appState, gesture, lastSwipe, children }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const lastAngle = useRef<number | null>(null);
+    const velocity = useRef(0);
+
+    useEffect(() => {
+        if (lastSwipe && appState === AppState.TREE) {
+            velocity.current += lastSwipe.velocity * SWIPE_IMPULSE;
+        }
+        // Only react to new swipes, not to state changes
+    }, [lastSwipe]);
+
+    useFrame((state, delta) => {
+        if (!groupRef.current) return;
+
+        const roll = appState === AppState.TREE && gesture.hands.length > 0 ? gesture.rotation : 0;
+        velocity.current = coast(velocity.current, rollAcceleration(roll), delta);
+        groupRef.current.rotation.y += velocity.current * delta;
+
+        const twoHand = gesture.twoHand;
+        if (!twoHand) {
+            lastAngle.current = null;
+            return;
+        }
+
+        if (lastAngle.current !== null) {
+            // Hands are ordered left to right, so the angle jumps by PI when they cross over; unwrap it
+            let change = twoHand.angle - lastAngle.current;
+            change -= Math.PI * Math.round(change / Math.PI);
+            groupRef.current.rotation.y -= change * 2;
+        }
+        lastAngle.current = twoHand.angle;
+    });
+
+    return <group ref={groupRef}>{children}</group>;
+};
+
+const ChristmasScene: React.FC<SceneProps> = ({
+  machine, gesture, photos, photosByDate, seed, layout, mask, theme, ornamentCount: fixedOrnamentCount, weather, quality, capture, onPhotoHover
+}) => {
+  const { state: appState, context: { focusedPhotoId, celebrationAt, lastSwipe, lightPattern } } = useMachineSnapshot(machine);
+  const q = useQualitySettings(quality);
+  // A snapshot in progress overrides the tier's pixel ratio
+  const captureDpr = useSyncExternalStore(capture.subscribe, capture.getDpr);
+  const ornamentCount = fixedOrnamentCount ?? q.ornamentCount;
+  const snow = useMemo(() => ({ ...weather, density: weather.density * q.snowScale }), [weather, q.snowScale]);
+  // Memoize ornaments so they only regenerate for a new count, seed, layout or ornament mix
+  const ornaments = useMemo(
+    () => generateTreeLayout(ornamentCount, [], seed, layout, mask, theme.ornaments),
+    [ornamentCount, seed, layout, mask, theme.ornaments]
+  );
 
   const sphereOrnaments = useMemo(() => ornaments.filter(p => p.type === 'SPHERE'), [ornaments]);
   const cubeOrnaments = useMemo(() => ornaments.filter(p => p.type === 'CUBE'), [ornaments]);
+
+  // Fewer segments per sphere once there are enough ornaments that nobody can tell
+  const sphereSegments = ornamentCount > 5000 ? 8 : ornamentCount > 1000 ? 16 : 32;
+  const sphereGeometry = useMemo(() => new THREE.SphereGeometry(0.3, sphereSegments, sphereSegments), [sphereSegments]);
+  const cubeGeometry = useMemo(() => new THREE.BoxGeometry(0.45, 0.45, 0.45), []);
+  useEffect(() => () => sphereGeometry.dispose(), [sphereGeometry]);
+  useEffect(() => () => cubeGeometry.dispose(), [cubeGeometry]);
   
   // Memoize photos particles. Ensure ID uniqueness by offset or just treatment.
   const photoParticles = useMemo(() => {
      if (photos.length === 0) return [];
-     const raw = generateTreeLayout(photos.length, photos);
+     const raw = generateTreeLayout(photos.length, photos, `${seed}/photos`, layout, mask);
      // Offset ID to ensure no animation sync issues if that was a factor, though separate meshes handle it fine.
-     return raw.map((p, i) => ({ 
+     const particles = raw.map((p, i) => ({ 
          ...p, 
-         id: i + 10000, // Safe offset
+         id: photoParticleId(i),
          type: 'PHOTO' as const, 
          scale: 1.5 
      }));
-  }, [photos]);
+     return photosByDate ? stackPhotosByDate(particles) : particles;
+  }, [photos, photosByDate, seed, layout, mask]);
 
   return (
     <Canvas 
       camera={{ position: [0, 0, 25], fov: 45 }}
-      gl={{ antialias: false, toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: 1.5 }}
-      dpr={[1, 2]}
+      gl={{ antialias: false, toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: theme.exposure }}
+      dpr={captureDpr ?? [1, q.dpr]}
+      shadows={q.shadows}
     >
-      <color attach="background" args={['#051015']} />
+      <FrameTimeProbe quality={quality} />
+      <CaptureBridge capture={capture} draws={!q.postprocessing} />
+      <color attach="background" args={[theme.background]} />
+      <Exposure value={theme.exposure} />
       
-      <CameraController appState={appState} gesture={gesture} />
+      <CameraController appState={appState} gesture={gesture} lastSwipe={lastSwipe} />
       
-      <ambientLight intensity={0.5} color="#ffffff" />
-      <directionalLight position={[0, 10, 10]} intensity={1} color="#ffffff" />
-      <pointLight position={[10, 5, 10]} intensity={1} color="#ffd700" />
-      <pointLight position={[-10, -5, 10]} intensity={0.5} color="#ff0000" />
+      <ambientLight intensity={theme.lights.ambient.intensity} color={theme.lights.ambient.color} />
+      <directionalLight 
+        position={theme.lights.directional.position} 
+        intensity={theme.lights.directional.intensity} 
+        color={theme.lights.directional.color} 
+        castShadow={q.shadows}
+        shadow-mapSize={[2048, 2048]}
+        shadow-camera-left={-20}
+        shadow-camera-right={20}
+        shadow-camera-top={20}
+        shadow-camera-bottom={-20}
+        shadow-camera-far={60}
+      />
+      {theme.lights.points.map((light, i) => (
+        <pointLight key={i} position={light.position} intensity={light.intensity} color={light.color} />
+      ))}
       
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      <Stars 
+        radius={100} 
+        depth={50} 
+        count={Math.round(theme.stars.count * q.starScale)} 
+        factor={theme.stars.factor} 
+        saturation={theme.stars.saturation} 
+        fade 
+        speed={1} 
+      />
+
+      <Snowfall appState={appState} gesture={gesture} settings={snow} sparkleColor={theme.stringLights.star} />
+
+      {q.shadows && (
+        <mesh rotation-x={-Math.PI / 2} position={[0, GROUND_Y, 0]} receiveShadow>
+          <planeGeometry args={[60, 60]} />
+          <shadowMaterial opacity={0.35} />
+        </mesh>
+      )}
 
       <Float speed={1} rotationIntensity={0.2} floatIntensity={0.2}>
-         <ParticleGroup 
+        <TreeSpinner appState={appState} gesture={gesture} lastSwipe={lastSwipe}>
+         <OrnamentGroup 
             data={sphereOrnaments} 
             appState={appState} 
-            gesture={gesture} 
-            geometry={<sphereGeometry args={[0.3, 32, 32]} />} 
+            celebrationAt={celebrationAt}
+            material={theme.material}
+            geometry={sphereGeometry} 
          />
          
-         <ParticleGroup 
+         <OrnamentGroup 
             data={cubeOrnaments} 
             appState={appState} 
-            gesture={gesture} 
-            geometry={<boxGeometry args={[0.45, 0.45, 0.45]} />} 
+            celebrationAt={celebrationAt}
+            material={theme.material}
+            geometry={cubeGeometry} 
+         />
+         
+         <TreeLights 
+            appState={appState} 
+            pattern={lightPattern} 
+            seed={seed} 
+            layout={layout} 
+            mask={mask} 
+            colors={theme.stringLights} 
          />
          
-         <PhotoCloud particles={photoParticles} appState={appState} gesture={gesture} />
+         <PhotoCloud 
+            particles={photoParticles} 
+            appState={appState} 
+            gesture={gesture} 
+            focusedPhotoId={focusedPhotoId}
+            frameColor={theme.frameColor}
+            onPhotoHover={onPhotoHover}
+         />
+        </TreeSpinner>
       </Float>
 
-      <EffectComposer disableNormalPass>
-        <Bloom luminanceThreshold={0.8} mipmapBlur intensity={1.2} radius={0.5} />
-        <Vignette eskil={false} offset={0.1} darkness={1.1} />
-      </EffectComposer>
+      {q.postprocessing && (
+        <EffectComposer enableNormalPass={false}>
+          <Bloom luminanceThreshold={theme.bloom.threshold} mipmapBlur intensity={theme.bloom.intensity} radius={theme.bloom.radius} />
+          <Vignette eskil={false} offset={theme.vignette.offset} darkness={theme.vignette.darkness} />
+        </EffectComposer>
+      )}
       
-      <Environment preset="city" />
+      {q.environment && <EnvironmentMap preset={theme.environment as EnvironmentPreset} />}
     </Canvas>
   );
 };
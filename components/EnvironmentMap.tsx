@@ -0,0 +1,37 @@
+import React, { Suspense } from 'react';
+import { Environment } from '@react-three/drei';
+import { EnvironmentPreset } from '../utils/themes';
+import { environmentMapUrl } from '../utils/environmentMaps';
+
+interface Props {
+  preset: EnvironmentPreset;
+}
+
+// Catches a map that can't be loaded (e.g. offline before it was ever cached), so the
+// scene goes on without image-based lighting instead of the whole Canvas failing
+class EnvironmentBoundary extends React.Component<{ children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    console.warn('Environment map unavailable, lighting the scene without it', error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+// The theme's environment map; a new preset gets a fresh attempt at loading
+const EnvironmentMap: React.FC<Props> = ({ preset }) => (
+  <EnvironmentBoundary key={preset}>
+    <Suspense fallback={null}>
+      <Environment files={environmentMapUrl(preset)} />
+    </Suspense>
+  </EnvironmentBoundary>
+);
+
+export default EnvironmentMap;
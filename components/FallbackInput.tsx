@@ -0,0 +1,39 @@
+import React, { useEffect, useRef } from 'react';
+import { FallbackInputKind, GestureEvent, HandGesture } from '../types';
+import { createFallbackInput } from '../utils/inputSources';
+
+interface Props {
+  kind: FallbackInputKind;
+  onGestureUpdate: (gesture: HandGesture) => void;
+  onGestureEvent: (event: GestureEvent) => void;
+  // The scene's layer, which touch gestures are read from; null until it mounts
+  touchSurface: HTMLElement | null;
+}
+
+// Logic-only counterpart of HandManager for keyboard, mouse and touch
+const FallbackInput: React.FC<Props> = ({ kind, onGestureUpdate, onGestureEvent, touchSurface }) => {
+  const onGestureUpdateRef = useRef(onGestureUpdate);
+  const onGestureEventRef = useRef(onGestureEvent);
+
+  useEffect(() => {
+    onGestureUpdateRef.current = onGestureUpdate;
+    onGestureEventRef.current = onGestureEvent;
+  }, [onGestureUpdate, onGestureEvent]);
+
+  // Keyboard and mouse don't need the surface, so they aren't restarted when it mounts
+  const surface = kind === 'TOUCH' ? touchSurface : null;
+
+  useEffect(() => {
+    if (kind === 'TOUCH' && !surface) return;
+    const source = createFallbackInput(kind, surface ?? undefined);
+    source.start({
+      onGestureUpdate: gesture => onGestureUpdateRef.current(gesture),
+      onGestureEvent: event => onGestureEventRef.current(event)
+    });
+    return () => source.stop();
+  }, [kind, surface]);
+
+  return null;
+};
+
+export default FallbackInput;
@@ -1,138 +1,216 @@
 import React, { useEffect, useRef } from 'react';
 import * as mediapipeHands from '@mediapipe/hands';
-import * as cameraUtils from '@mediapipe/camera_utils';
-import { HandGesture } from '../types';
+import { GestureEvent, HandFrame, HandGesture, Landmark } from '../types';
+import { GestureRecognizer } from '../utils/gestureRecognizer';
+import { mediapipeAsset } from '../utils/assetPaths';
+import { HandTrackerClient } from '../utils/handTrackerClient';
+
+// The parts of MediaPipe's Hands solution used here, for the main-thread fallback
+interface HandsResults {
+  multiHandLandmarks?: Landmark[][];
+  multiHandedness?: { label: string }[];
+}
+
+interface HandsSolution {
+  setOptions(options: {
+    maxNumHands?: number;
+    modelComplexity?: 0 | 1;
+    minDetectionConfidence?: number;
+    minTrackingConfidence?: number;
+  }): void;
+  onResults(listener: (results: HandsResults) => void): void;
+  send(inputs: { image: HTMLVideoElement }): Promise<void>;
+  close(): Promise<void>;
+}
+
+type HandsConstructor = new (config: { locateFile: (file: string) => string }) => HandsSolution;
 
-// Define loose type for Results
-type Results = any; 
+// The worker only has the full landmark model, so the light setting runs it less often instead
+const LIGHT_TRACKING_INTERVAL_MS = 1000 / 15;
+const trackingInterval = (modelComplexity: 0 | 1) => (modelComplexity === 0 ? LIGHT_TRACKING_INTERVAL_MS : 0);
 
 interface Props {
+  // Opened by the App, which owns it; switching cameras passes a new one
+  stream: MediaStream;
   onGestureUpdate: (gesture: HandGesture) => void;
+  onGestureEvent?: (event: GestureEvent) => void;
+  // Raw landmarks of every processed frame, e.g. for drawing a preview
+  onFrame?: (frame: HandFrame[], timestamp: number) => void;
+  // Called when hand tracking can't run at all, so the App can fall back to other input
+  onError?: (message: string) => void;
+  // Lighter hand tracking for slow machines; can change while tracking. The main-thread
+  // fallback switches to the lite model, the worker runs fewer frames a second
+  modelComplexity?: 0 | 1;
 }
 
-const HandManager: React.FC<Props> = ({ onGestureUpdate }) => {
+const HandManager: React.FC<Props> = ({ stream, onGestureUpdate, onGestureEvent, onFrame, onError, modelComplexity = 1 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const handsRef = useRef<HandsSolution | null>(null);
+  const trackerRef = useRef<HandTrackerClient | null>(null);
+  // Sends one video frame to whichever pipeline is running
+  const processRef = useRef<((video: HTMLVideoElement) => Promise<void>) | null>(null);
+  const modelComplexityRef = useRef(modelComplexity);
   const onGestureUpdateRef = useRef(onGestureUpdate);
+  const onGestureEventRef = useRef(onGestureEvent);
+  const onFrameRef = useRef(onFrame);
+  const onErrorRef = useRef(onError);
 
   useEffect(() => {
     onGestureUpdateRef.current = onGestureUpdate;
-  }, [onGestureUpdate]);
+    onGestureEventRef.current = onGestureEvent;
+    onFrameRef.current = onFrame;
+    onErrorRef.current = onError;
+  }, [onGestureUpdate, onGestureEvent, onFrame, onError]);
+
+  useEffect(() => {
+    modelComplexityRef.current = modelComplexity;
+    handsRef.current?.setOptions({ modelComplexity });
+    if (trackerRef.current) trackerRef.current.minIntervalMs = trackingInterval(modelComplexity);
+  }, [modelComplexity]);
   
   useEffect(() => {
-    if (!videoRef.current) return;
-
     // Robustly access exports, handling potential CommonJS/ESM interop differences
-    const mpHands: any = mediapipeHands;
-    const mpCamera: any = cameraUtils;
-
+    const mpHands = mediapipeHands as unknown as { Hands?: HandsConstructor; default?: { Hands?: HandsConstructor } };
     const Hands = mpHands.Hands || mpHands.default?.Hands;
-    const Camera = mpCamera.Camera || mpCamera.default?.Camera;
 
-    if (!Hands || !Camera) {
+    // Hands is only needed if the tracking worker can't run
+    if (!Hands && !HandTrackerClient.isSupported()) {
       console.error("Failed to load MediaPipe modules. Check imports.");
+      onErrorRef.current?.("Failed to load MediaPipe modules");
       return;
     }
 
-    const hands = new Hands({
-      locateFile: (file: string) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-      },
-    });
-
-    hands.setOptions({
-      maxNumHands: 1,
-      modelComplexity: 1,
-      minDetectionConfidence: 0.7,
-      minTrackingConfidence: 0.7,
-    });
-
-    hands.onResults((results: Results) => {
-      let gestureData: HandGesture;
-
-      if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-        const landmarks = results.multiHandLandmarks[0];
-
-        // 1. Detect Open Palm vs Fist
-        const wrist = landmarks[0];
-        const tips = [8, 12, 16, 20];
-        let avgDist = 0;
-        
-        tips.forEach((idx: number) => {
-          const dx = landmarks[idx].x - wrist.x;
-          const dy = landmarks[idx].y - wrist.y;
-          avgDist += Math.sqrt(dx*dx + dy*dy);
-        });
-        avgDist /= tips.length;
-
-        const isFist = avgDist < 0.25; 
-        const isOpenPalm = avgDist > 0.4;
-
-        // 2. Detect Pinch
-        const thumbTip = landmarks[4];
-        const indexTip = landmarks[8];
-        const pinchDist = Math.sqrt(
-          Math.pow(thumbTip.x - indexTip.x, 2) + 
-          Math.pow(thumbTip.y - indexTip.y, 2)
-        );
-        const isPinching = pinchDist < 0.05;
-
-        // 3. Hand Position
-        const handPos = { x: 1 - landmarks[9].x, y: landmarks[9].y }; 
-
-        gestureData = {
-          isFist,
-          isOpenPalm,
-          isPinching,
-          handPosition: handPos,
-          rotation: landmarks[0].x
-        };
-      } else {
-        gestureData = {
-          isFist: false,
-          isOpenPalm: false,
-          isPinching: false,
-          handPosition: { x: 0.5, y: 0.5 },
-          rotation: 0
-        };
-      }
+    // Debounces and smooths raw landmarks into stable gestures and start/end events
+    const recognizer = new GestureRecognizer();
+
+    // timestamp is when the frame was captured, so the scene can interpolate between results
+    const handleFrame = (frame: HandFrame[], timestamp: number) => {
+      onFrameRef.current?.(frame, timestamp);
+      const { gesture, events } = recognizer.update(frame, timestamp);
 
+      events.forEach(event => onGestureEventRef.current?.(event));
       if (onGestureUpdateRef.current) {
-        onGestureUpdateRef.current(gestureData);
+        onGestureUpdateRef.current(gesture);
       }
-    });
-
-    const camera = new Camera(videoRef.current, {
-      onFrame: async () => {
-        if (videoRef.current) {
-           try {
-              await hands.send({ image: videoRef.current });
-           } catch (e) {
-              // Ignore frames sent during cleanup
-           }
+    };
+
+    let hands: HandsSolution | null = null;
+    let capturedAt = 0;
+
+    // The original in-page pipeline, for browsers without workers or OffscreenCanvas
+    const startMainThread = () => {
+      if (!Hands) {
+        onErrorRef.current?.("Failed to load MediaPipe modules");
+        return;
+      }
+
+      hands = new Hands({
+        locateFile: (file: string) => {
+          return mediapipeAsset(`hands/${file}`);
+        },
+      });
+
+      hands.setOptions({
+        maxNumHands: 2,
+        modelComplexity: modelComplexityRef.current,
+        minDetectionConfidence: 0.7,
+        minTrackingConfidence: 0.7,
+      });
+
+      hands.onResults(results => {
+        // MediaPipe labels handedness assuming a mirrored selfie image; the webcam feed isn't mirrored
+        const frame: HandFrame[] = (results.multiHandLandmarks ?? []).map((landmarks, i) => ({
+          landmarks,
+          handedness: results.multiHandedness?.[i]?.label === 'Left' ? 'Right' : 'Left'
+        }));
+        handleFrame(frame, capturedAt);
+      });
+
+      handsRef.current = hands;
+    };
+
+    let tracker: HandTrackerClient | null = null;
+    if (HandTrackerClient.isSupported()) {
+      tracker = new HandTrackerClient({
+        onResult: handleFrame,
+        onError: message => {
+          console.warn("Hand tracking worker failed, tracking on the main thread", message);
+          tracker = null;
+          trackerRef.current = null;
+          startMainThread();
         }
-      },
-      width: 640,
-      height: 480,
-    });
+      });
+      tracker.minIntervalMs = trackingInterval(modelComplexityRef.current);
+      trackerRef.current = tracker;
+    } else {
+      startMainThread();
+    }
+
+    processRef.current = async (video: HTMLVideoElement) => {
+      capturedAt = performance.now();
+      if (tracker) {
+        // Doesn't wait for the result: frames arriving while the worker is busy are dropped
+        tracker.send(video, capturedAt);
+      } else if (hands) {
+         try {
+            await hands.send({ image: video });
+         } catch (e) {
+            // Ignore frames sent during cleanup
+         }
+      }
+    };
+
+    return () => {
+        handsRef.current = null;
+        trackerRef.current = null;
+        processRef.current = null;
+        tracker?.close();
+        hands?.close().catch(e => console.warn(e));
+    };
+  }, []);
+
+  // Feeds every new video frame to the pipeline, one at a time
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let stopped = false;
+    // The display refreshes faster than the camera delivers frames; skip repeats
+    let lastTime = -1;
+
+    const next = () => {
+      if (!stopped) requestAnimationFrame(() => void tick());
+    };
+    const tick = async () => {
+      if (stopped) return;
+      if (video.readyState >= 2 && video.currentTime !== lastTime) {
+        lastTime = video.currentTime;
+        await processRef.current?.(video);
+      }
+      next();
+    };
 
-    camera.start();
+    video.srcObject = stream;
+    video.play()
+      .then(next)
+      .catch((e: unknown) => {
+        if (stopped) return;
+        console.warn("Camera video failed to play", e);
+        onErrorRef.current?.("Camera unavailable");
+      });
 
     return () => {
-        try {
-           if (camera.stop) camera.stop();
-        } catch (e) { console.warn(e); }
-        
-        try {
-           if (hands.close) hands.close();
-        } catch (e) { console.warn(e); }
+      stopped = true;
+      video.pause();
+      video.srcObject = null;
     };
-  }, []); 
+  }, [stream]);
 
   return (
     <video
       ref={videoRef}
       className="hidden"
       playsInline
+      muted
     />
   );
 };
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { LayoutSelection } from '../types';
+import { defaultParams, getLayout, listLayouts } from '../utils/layouts';
+import { MAX_ORNAMENTS, MIN_ORNAMENTS } from '../utils/treeConfig';
+
+interface Props {
+  layout: LayoutSelection;
+  hasMask: boolean;
+  // null leaves the count to the quality tier
+  ornamentCount: number | null;
+  autoOrnamentCount: number;
+  onChange: (layout: LayoutSelection) => void;
+  onOrnamentCountChange: (count: number | null) => void;
+  // Rejects when the image can't be read
+  onMaskUpload: (file: File) => Promise<void>;
+  onClose: () => void;
+}
+
+// Picks the shape the particles assemble into, tunes its parameters and sets how many ornaments fill it
+const LayoutPanel: React.FC<Props> = ({
+  layout, hasMask, ornamentCount, autoOrnamentCount, onChange, onOrnamentCountChange, onMaskUpload, onClose
+}) => {
+  const definition = getLayout(layout.id);
+  const [maskError, setMaskError] = useState<string | null>(null);
+
+  const selectLayout = (id: string) => {
+    const next = getLayout(id);
+    if (next) onChange({ id, params: defaultParams(next) });
+  };
+
+  const setParam = (key: string, value: number | string) => {
+    onChange({ id: layout.id, params: { ...layout.params, [key]: value } });
+  };
+
+  const handleMaskUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      await onMaskUpload(file);
+      setMaskError(null);
+    } catch (e) {
+      setMaskError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="w-64 flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+        <span className="font-bold tracking-widest uppercase">Shape</span>
+        <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+      </div>
+
+      <div className="p-3 flex flex-col gap-3">
+        <select
+          value={layout.id}
+          onChange={e => selectLayout(e.target.value)}
+          className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100"
+        >
+          {listLayouts().map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+        </select>
+
+        {definition?.params.map(param => (
+          <label key={param.key} className="flex flex-col gap-1">
+            {param.type === 'number' ? (
+              <>
+                <span className="flex justify-between">
+                  <span>{param.label}</span>
+                  <span className="font-mono text-yellow-100/60">{layout.params[param.key] ?? param.default}</span>
+                </span>
+                <input
+                  type="range"
+                  min={param.min}
+                  max={param.max}
+                  step={param.step}
+                  value={layout.params[param.key] ?? param.default}
+                  onChange={e => setParam(param.key, Number(e.target.value))}
+                  className="accent-yellow-400"
+                />
+              </>
+            ) : (
+              <>
+                <span>{param.label}</span>
+                <input
+                  type="text"
+                  maxLength={param.maxLength}
+                  value={layout.params[param.key] ?? param.default}
+                  onChange={e => setParam(param.key, e.target.value)}
+                  className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100"
+                />
+              </>
+            )}
+          </label>
+        ))}
+
+        {definition?.needsMask && (
+          <label className="cursor-pointer text-center border border-yellow-500/30 rounded px-2 py-1 hover:bg-white/5">
+            {hasMask ? 'Replace Image' : 'Upload Image'}
+            <input type="file" accept="image/*" className="hidden" onChange={handleMaskUpload} />
+          </label>
+        )}
+        {definition?.needsMask && maskError && <p className="text-red-400 break-words">{maskError}</p>}
+      </div>
+
+      <div className="px-3 py-2 border-t border-yellow-500/20 flex flex-col gap-1">
+        <span className="flex justify-between">
+          <span>Ornaments</span>
+          <label className="flex items-center gap-1 text-yellow-100/60">
+            <span className="font-mono">{ornamentCount ?? autoOrnamentCount}</span>
+            <span>auto</span>
+            <input
+              type="checkbox"
+              checked={ornamentCount === null}
+              onChange={e => onOrnamentCountChange(e.target.checked ? null : autoOrnamentCount)}
+              className="accent-yellow-400"
+            />
+          </label>
+        </span>
+        <input
+          type="range"
+          min={MIN_ORNAMENTS}
+          max={MAX_ORNAMENTS}
+          step={MIN_ORNAMENTS}
+          value={ornamentCount ?? autoOrnamentCount}
+          disabled={ornamentCount === null}
+          onChange={e => onOrnamentCountChange(Number(e.target.value))}
+          className="accent-yellow-400 disabled:opacity-30"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LayoutPanel;
@@ -0,0 +1,209 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AppState, ParticleData, Theme } from '../types';
+
+interface Props {
+  data: ParticleData[];
+  appState: AppState;
+  celebrationAt: number | null;
+  material: Theme['material'];
+  geometry: THREE.BufferGeometry; // Shape of one ornament; cloned, so it can be shared
+}
+
+const CELEBRATION_MS = 1600;
+const CELEBRATION_DISTANCE = 6;
+
+// 0 -> 1 -> 0 over the celebration, 0 outside it
+const celebrationEnvelope = (elapsedMs: number) =>
+  elapsedMs >= 0 && elapsedMs < CELEBRATION_MS ? Math.sin(Math.PI * elapsedMs / CELEBRATION_MS) : 0;
+
+// Every target lives in an instanced attribute and the vertex shader blends them.
+// Per frame the CPU only eases a handful of uniforms, so the cost doesn't grow
+// with the ornament count.
+const ornamentHeader = /* glsl */ `
+  attribute vec3 aTree;
+  attribute vec3 aTreeFrom; // Where the tree position was before the last layout change
+  attribute vec3 aExploded;
+  attribute vec3 aRotation;
+  attribute float aScale;
+  attribute float aPhase;
+  uniform float uTime;
+  uniform float uMorph; // aTreeFrom -> aTree
+  uniform vec3 uWeights; // Tree, exploded and focus blend, summing to 1
+  uniform float uBurst;
+
+  // Same as THREE.Euler's default XYZ order
+  mat3 rotationXYZ(vec3 r) {
+    vec3 c = cos(r);
+    vec3 s = sin(r);
+    return mat3(
+      c.y * c.z, c.x * s.z + s.x * s.y * c.z, s.x * s.z - c.x * s.y * c.z,
+      -c.y * s.z, c.x * c.z - s.x * s.y * s.z, s.x * c.z + c.x * s.y * s.z,
+      s.y, -s.x * c.y, c.x * c.y
+    );
+  }
+
+  // Each ornament tumbles slowly from its own starting angle
+  mat3 ornamentRotation() {
+    return rotationXYZ(aRotation + vec3(0.2, 0.1, 0.0) * uTime);
+  }
+`;
+
+const ornamentNormal = /* glsl */ `
+  objectNormal = ornamentRotation() * objectNormal;
+`;
+
+const ornamentPosition = /* glsl */ `
+  vec3 treeTarget = mix(aTreeFrom, aTree, uMorph);
+  // Gentle float noise while exploded
+  vec3 drift = vec3(sin(uTime + aPhase), cos(uTime * 0.8 + aPhase), 0.0) * 0.5;
+  vec3 offset = treeTarget * uWeights.x + (aExploded + drift) * uWeights.y + aExploded * 1.5 * uWeights.z;
+  // Two-handed celebration: everything pops outward and settles back
+  offset += normalize(offset + vec3(1e-5)) * uBurst * ${CELEBRATION_DISTANCE.toFixed(1)};
+  transformed = ornamentRotation() * transformed * aScale * (1.0 + uBurst) + offset;
+`;
+
+// How the blend weights follow the state, the same easing the per-particle lerp used
+const targetWeights = (appState: AppState, target: THREE.Vector3) => {
+  if (appState === AppState.TREE) return target.set(1, 0, 0);
+  if (appState === AppState.EXPLODED) return target.set(0, 1, 0);
+  return target.set(0, 0, 1); // FOCUS: pushed back out of the way
+};
+
+const OrnamentGroup: React.FC<Props> = ({ data, appState, celebrationAt, material: look, geometry: shape }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const count = data.length;
+
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uMorph: { value: 1 },
+    // Start exploded so the tree assembles on load
+    uWeights: { value: new THREE.Vector3(0, 1, 0) },
+    uBurst: { value: 0 }
+  }), []);
+
+  const material = useMemo(() => {
+    const material = new THREE.MeshStandardMaterial({ toneMapped: false });
+    material.onBeforeCompile = shader => {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${ornamentHeader}`)
+        .replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>\n${ornamentNormal}`)
+        .replace('#include <begin_vertex>', `#include <begin_vertex>\n${ornamentPosition}`);
+    };
+    material.customProgramCacheKey = () => 'ornament';
+    return material;
+  }, [uniforms]);
+
+  // Shadow maps render with their own material, which needs the same displacement
+  const depthMaterial = useMemo(() => {
+    const material = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+    material.onBeforeCompile = shader => {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${ornamentHeader}`)
+        .replace('#include <begin_vertex>', `#include <begin_vertex>\n${ornamentPosition}`);
+    };
+    material.customProgramCacheKey = () => 'ornament-depth';
+    return material;
+  }, [uniforms]);
+
+  useEffect(() => {
+    material.roughness = look.roughness;
+    material.metalness = look.metalness;
+    material.envMapIntensity = look.envMapIntensity;
+  }, [material, look]);
+
+  // The tree targets currently on the GPU, so a new layout or seed can morph each
+  // ornament from wherever it is right now
+  const previous = useRef<{ index: Map<number, number>; from: Float32Array; to: Float32Array } | null>(null);
+
+  const { geometry, index } = useMemo(() => {
+    const geometry = shape.clone();
+    const tree = new Float32Array(count * 3);
+    const treeFrom = new Float32Array(count * 3);
+    const exploded = new Float32Array(count * 3);
+    const rotation = new Float32Array(count * 3);
+    const scale = new Float32Array(count);
+    const phase = new Float32Array(count);
+    const index = new Map<number, number>();
+    const last = previous.current;
+    const morph = uniforms.uMorph.value;
+
+    data.forEach((p, i) => {
+      index.set(p.id, i);
+      p.treePosition.toArray(tree, i * 3);
+      p.explodedPosition.toArray(exploded, i * 3);
+      const j = last?.index.get(p.id);
+      if (last && j !== undefined) {
+        for (let k = 0; k < 3; k++) {
+          treeFrom[i * 3 + k] = last.from[j * 3 + k] + (last.to[j * 3 + k] - last.from[j * 3 + k]) * morph;
+        }
+      } else if (last) {
+        // Ornaments new to this group fly in from their exploded spot
+        p.explodedPosition.toArray(treeFrom, i * 3);
+      } else {
+        p.treePosition.toArray(treeFrom, i * 3);
+      }
+      rotation[i * 3] = p.rotation.x;
+      rotation[i * 3 + 1] = p.rotation.y;
+      rotation[i * 3 + 2] = p.rotation.z;
+      scale[i] = p.scale;
+      phase[i] = p.id;
+    });
+
+    geometry.setAttribute('aTree', new THREE.InstancedBufferAttribute(tree, 3));
+    geometry.setAttribute('aTreeFrom', new THREE.InstancedBufferAttribute(treeFrom, 3));
+    geometry.setAttribute('aExploded', new THREE.InstancedBufferAttribute(exploded, 3));
+    geometry.setAttribute('aRotation', new THREE.InstancedBufferAttribute(rotation, 3));
+    geometry.setAttribute('aScale', new THREE.InstancedBufferAttribute(scale, 1));
+    geometry.setAttribute('aPhase', new THREE.InstancedBufferAttribute(phase, 1));
+    return { geometry, index };
+  }, [data, count, shape]);
+
+  // The new attributes are live: restart the morph from the captured positions
+  useLayoutEffect(() => {
+    previous.current = {
+      index,
+      from: (geometry.getAttribute('aTreeFrom') as THREE.InstancedBufferAttribute).array as Float32Array,
+      to: (geometry.getAttribute('aTree') as THREE.InstancedBufferAttribute).array as Float32Array
+    };
+    uniforms.uMorph.value = 0;
+  }, [geometry, index, uniforms]);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    data.forEach((p, i) => mesh.setColorAt(i, p.color));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [data, geometry]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+  useEffect(() => () => depthMaterial.dispose(), [depthMaterial]);
+
+  const weightTarget = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((state, delta) => {
+    const step = Math.min(1, delta * 3);
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uWeights.value.lerp(targetWeights(appState, weightTarget), step);
+    uniforms.uMorph.value += (1 - uniforms.uMorph.value) * step;
+    uniforms.uBurst.value = celebrationAt === null ? 0 : celebrationEnvelope(performance.now() - celebrationAt);
+  });
+
+  if (count === 0) return null;
+
+  return (
+    <instancedMesh 
+      ref={meshRef} 
+      args={[geometry, material, count]} 
+      customDepthMaterial={depthMaterial} 
+      castShadow 
+      frustumCulled={false} 
+    />
+  );
+};
+
+export default OrnamentGroup;
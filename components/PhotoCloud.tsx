@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { AppState, HandGesture, ParticleData } from '../types';
+import { createPhotoArrayTexture, loadPhotoLayer } from '../utils/photoArrayTexture';
+import { HandInterpolator } from '../utils/handInterpolator';
+import CaptionCard, { hasCaption } from './CaptionCard';
+
+interface Props {
+  particles: ParticleData[];
+  appState: AppState;
+  gesture: HandGesture;
+  focusedPhotoId: number | null;
+  frameColor: string;
+  onPhotoHover: (id: number | null) => void;
+}
+
+const photoVertexShader = /* glsl */ `
+  attribute float aLayer;
+  attribute float aHighlight;
+  varying vec2 vUv;
+  varying float vLayer;
+  varying float vHighlight;
+
+  void main() {
+    vUv = uv;
+    vLayer = aLayer;
+    vHighlight = aHighlight;
+    gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+  }
+`;
+
+const photoFragmentShader = /* glsl */ `
+  precision highp sampler2DArray;
+  uniform sampler2DArray uPhotos;
+  varying vec2 vUv;
+  varying float vLayer;
+  varying float vHighlight;
+
+  void main() {
+    vec4 color = texture(uPhotos, vec3(vUv, vLayer));
+    color.rgb += vHighlight * 0.15;
+    gl_FragColor = color;
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+const FRAME_BORDER = 0.1;
+const FRAME_DEPTH = 0.05;
+// Frame sits behind the photo plane so it never z-fights with it
+const FRAME_OFFSET = -0.05;
+const FRAME_HIGHLIGHT = 2.5; // Frame color multiplier at full hover, enough to bloom
+// The focused photo sits this far in front of the camera, wherever an orbit or the
+// slideshow has taken it
+const FOCUS_DISTANCE = 10;
+
+// All photos as one instanced mesh sampling a shared array texture, plus one
+// instanced mesh for their gold frames: two draw calls regardless of photo count.
+const PhotoCloud: React.FC<Props> = ({ particles, appState, gesture, focusedPhotoId, frameColor, onPhotoHover }) => {
+  const photoRef = useRef<THREE.InstancedMesh>(null);
+  const frameRef = useRef<THREE.InstancedMesh>(null);
+  // Follows the bottom edge of the focused photo's frame, carrying its caption card
+  const captionRef = useRef<THREE.Group>(null);
+  const count = particles.length;
+  const focusing = appState === AppState.FOCUS || appState === AppState.SLIDESHOW;
+  const focusedMeta = focusing ? particles.find(p => p.id === focusedPhotoId)?.meta : undefined;
+
+  const urlKey = particles.map(p => p.textureUrl ?? '').join('\n');
+  const texture = useMemo(() => createPhotoArrayTexture(count), [urlKey, count]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = texture.image.width;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (ctx) {
+      // One at a time keeps only a single decoded photo in memory
+      (async () => {
+        for (let i = 0; i < particles.length && !cancelled; i++) {
+          const url = particles[i].textureUrl;
+          if (url) await loadPhotoLayer(texture, i, url, ctx);
+        }
+      })();
+    }
+    return () => {
+      cancelled = true;
+      texture.dispose();
+    };
+    // The texture is rebuilt exactly when the URLs change, so it stands in for `particles`
+  }, [texture]);
+
+  const { geometry, highlight } = useMemo(() => {
+    const geometry = new THREE.PlaneGeometry(1, 1);
+    geometry.setAttribute('aLayer', new THREE.InstancedBufferAttribute(Float32Array.from({ length: count }, (_, i) => i), 1));
+    const highlight = new THREE.InstancedBufferAttribute(new Float32Array(count), 1);
+    highlight.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('aHighlight', highlight);
+    return { geometry, highlight };
+  }, [count]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: { uPhotos: { value: texture } },
+    vertexShader: photoVertexShader,
+    fragmentShader: photoFragmentShader,
+    side: THREE.DoubleSide,
+    transparent: true
+  }), [texture]);
+
+  const frameGeometry = useMemo(() => new THREE.BoxGeometry(1, 1, FRAME_DEPTH), []);
+  const frameMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: '#ffffff', metalness: 0.9, roughness: 0.2 }), []);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+  useEffect(() => () => {
+    frameGeometry.dispose();
+    frameMaterial.dispose();
+  }, [frameGeometry, frameMaterial]);
+
+  // Per-photo animation state in flat arrays, so the frame loop allocates nothing.
+  // Kept while the photo count stays the same, so a new layout morphs from where photos are.
+  const sim = useMemo(() => {
+    const positions = new Float32Array(count * 3);
+    const scales = new Float32Array(count).fill(1.5);
+    particles.forEach((p, i) => p.treePosition.toArray(positions, i * 3));
+    return { positions, scales };
+    // Seeded from the first particles only; later changes animate from the current state
+  }, [count]);
+
+  // Photo size inside a unit square at its real aspect ratio, and the frame's local transform
+  const shape = useMemo(() => {
+    const sizes = new Float32Array(count * 2);
+    const frameLocal = particles.map((p, i) => {
+      const aspect = p.aspect ?? 1;
+      const width = aspect >= 1 ? 1 : aspect;
+      const height = aspect >= 1 ? 1 / aspect : 1;
+      sizes[i * 2] = width;
+      sizes[i * 2 + 1] = height;
+      return new THREE.Matrix4()
+        .makeTranslation(0, 0, FRAME_OFFSET)
+        .multiply(new THREE.Matrix4().makeScale(width + FRAME_BORDER, height + FRAME_BORDER, 1));
+    });
+    return { sizes, frameLocal };
+  }, [particles, count]);
+
+  const scratch = useMemo(() => ({
+    dummy: new THREE.Object3D(),
+    current: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+    uniformScale: new THREE.Vector3(),
+    frameMatrix: new THREE.Matrix4(),
+    lookFront: new THREE.Vector3(),
+    lookCamera: new THREE.Vector3(),
+    focusPoint: new THREE.Vector3(),
+    captionOffset: new THREE.Vector3(),
+    color: new THREE.Color(),
+    frameColor: new THREE.Color(),
+    raycaster: new THREE.Raycaster(),
+    pointer: new THREE.Vector2(),
+    hand: new HandInterpolator(),
+    handPosition: { x: 0.5, y: 0.5 }
+  }), []);
+
+  const hoveredRef = useRef<number | null>(null);
+
+  const pick = (camera: THREE.Camera) => {
+    const mesh = photoRef.current;
+    let nextId: number | null = null;
+
+    // Only pick while the cloud is spread out; the tree is too dense to aim at
+    if (mesh && appState === AppState.EXPLODED && gesture.tracked) {
+      const { raycaster, pointer, hand } = scratch;
+      const now = performance.now();
+      hand.push(gesture, now);
+      const position = hand.sample(now, scratch.handPosition);
+      // handPosition is normalized 0-1 with y pointing down, NDC is -1..1 with y up
+      pointer.set(position.x * 2 - 1, -(position.y * 2 - 1));
+      raycaster.setFromCamera(pointer, camera);
+      // Instances move every frame, so the cached bounds are always stale
+      mesh.computeBoundingSphere();
+      const hit = raycaster.intersectObject(mesh, false)[0];
+      if (hit && hit.instanceId !== undefined) nextId = particles[hit.instanceId].id;
+    }
+
+    if (nextId !== hoveredRef.current) {
+      hoveredRef.current = nextId;
+      onPhotoHover(nextId);
+    }
+  };
+
+  useFrame((state, delta) => {
+    const mesh = photoRef.current;
+    const frames = frameRef.current;
+    if (!mesh || !frames || count === 0) return;
+
+    const { dummy, current, target, uniformScale, frameMatrix, lookFront, lookCamera, focusPoint, captionOffset, color } = scratch;
+    scratch.frameColor.set(frameColor);
+    const { positions, scales } = sim;
+    const { sizes, frameLocal } = shape;
+    const time = state.clock.elapsedTime;
+
+    // Instances live in the mesh's local space, which the tree spinner rotates
+    mesh.updateWorldMatrix(true, false);
+    mesh.worldToLocal(lookFront.set(0, 0, 30));
+    mesh.worldToLocal(lookCamera.copy(state.camera.position));
+    state.camera.getWorldDirection(focusPoint).multiplyScalar(FOCUS_DISTANCE).add(state.camera.position);
+    mesh.worldToLocal(focusPoint);
+
+    const hoveredId = appState === AppState.EXPLODED ? hoveredRef.current : null;
+    const moveStep = Math.min(1, delta * 3);
+    const scaleStep = Math.min(1, delta * 2);
+    const highlightStep = Math.min(1, delta * 8);
+    let highlightChanged = false;
+
+    for (let i = 0; i < count; i++) {
+      const particle = particles[i];
+      const isFocused = focusing && particle.id === focusedPhotoId;
+      const isHovered = particle.id === hoveredId;
+      let scale = 1.5;
+
+      target.copy(particle.treePosition);
+      if (appState === AppState.EXPLODED) {
+        // Add gentle floating motion
+        target.copy(particle.explodedPosition);
+        target.y += Math.sin(time + particle.id) * 0.5;
+        // Pop the photo under the hand cursor forward a little
+        if (isHovered) scale = 2.2;
+      } else if (focusing) {
+        if (isFocused) {
+          // Move significantly closer to camera and scale up
+          target.copy(focusPoint);
+          scale = 6;
+        } else {
+          // Push others back and shrink slightly
+          target.copy(particle.explodedPosition).multiplyScalar(1.5);
+          scale = 1.0;
+        }
+      }
+
+      current.fromArray(positions, i * 3).lerp(target, moveStep);
+      current.toArray(positions, i * 3);
+      scales[i] += (scale - scales[i]) * scaleStep;
+      const s = scales[i];
+
+      const nextHighlight = highlight.array[i] + ((isHovered ? 1 : 0) - highlight.array[i]) * highlightStep;
+      if (Math.abs(nextHighlight - highlight.array[i]) > 1e-3) {
+        highlight.array[i] = nextHighlight;
+        highlightChanged = true;
+      }
+
+      // Focused photo faces the camera, the rest face the default viewpoint
+      dummy.position.copy(current);
+      dummy.lookAt(isFocused ? lookCamera : lookFront);
+      dummy.scale.set(s * sizes[i * 2], s * sizes[i * 2 + 1], s);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+
+      if (isFocused && captionRef.current) {
+        captionOffset.set(0, -s * (sizes[i * 2 + 1] + FRAME_BORDER) / 2, 0).applyQuaternion(dummy.quaternion);
+        captionRef.current.position.copy(current).add(captionOffset);
+      }
+
+      frameMatrix.compose(dummy.position, dummy.quaternion, uniformScale.setScalar(s)).multiply(frameLocal[i]);
+      frames.setMatrixAt(i, frameMatrix);
+      frames.setColorAt(i, color.copy(scratch.frameColor).multiplyScalar(1 + highlight.array[i] * (FRAME_HIGHLIGHT - 1)));
+    }
+
+    mesh.instanceMatrix.needsUpdate = true;
+    frames.instanceMatrix.needsUpdate = true;
+    if (frames.instanceColor) frames.instanceColor.needsUpdate = true;
+    if (highlightChanged) highlight.needsUpdate = true;
+
+    pick(state.camera);
+  });
+
+  // Only render if we have particles
+  if (count === 0) return null;
+
+  return (
+    <group>
+      <instancedMesh ref={photoRef} args={[geometry, material, count]} frustumCulled={false} />
+      <instancedMesh ref={frameRef} args={[frameGeometry, frameMaterial, count]} frustumCulled={false} castShadow />
+      <group ref={captionRef}>
+        {hasCaption(focusedMeta) && (
+          <Html key={focusedPhotoId} zIndexRange={[1, 0]} style={{ pointerEvents: 'none' }}>
+            <CaptionCard meta={focusedMeta} />
+          </Html>
+        )}
+      </group>
+    </group>
+  );
+};
+
+export default PhotoCloud;
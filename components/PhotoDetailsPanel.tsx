@@ -0,0 +1,80 @@
+import React from 'react';
+import { PhotoEntry, PhotoMeta } from '../types';
+import { MAX_CAPTION_LENGTH } from '../utils/photoLibrary';
+
+interface Props {
+  photos: PhotoEntry[];
+  onChange: (id: string, meta: PhotoMeta) => void;
+  onClose: () => void;
+}
+
+// <input type="date"> speaks yyyy-mm-dd in local time
+const toDateInput = (time: number | undefined) => {
+  if (time === undefined) return '';
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return value ? new Date(year, month - 1, day).getTime() : undefined;
+};
+
+// Empty fields are dropped rather than saved as blanks
+const withField = <K extends keyof PhotoMeta>(meta: PhotoMeta, key: K, value: PhotoMeta[K] | '') => {
+  const next = { ...meta };
+  if (value === '' || value === undefined) delete next[key];
+  else next[key] = value;
+  return next;
+};
+
+// Caption, date and author for each photo, shown on the card under it in focus.
+// Opens on the photos of an upload, or on one photo from the library.
+const PhotoDetailsPanel: React.FC<Props> = ({ photos, onChange, onClose }) => (
+  <div className="w-64 max-h-[60vh] flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+    <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+      <span className="font-bold tracking-widest uppercase">Photo Details</span>
+      <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+    </div>
+
+    <ul className="overflow-y-auto p-3 flex flex-col gap-3">
+      {photos.map(photo => {
+        const meta = photo.meta ?? {};
+        return (
+          <li key={photo.id} className="flex gap-2">
+            <img src={photo.url} alt={photo.name} className="w-12 h-12 object-cover rounded border border-yellow-500/30" />
+            <div className="flex-1 min-w-0 flex flex-col gap-1">
+              <input
+                type="text"
+                placeholder="Caption"
+                maxLength={MAX_CAPTION_LENGTH}
+                value={meta.caption ?? ''}
+                onChange={e => onChange(photo.id, withField(meta, 'caption', e.target.value))}
+                className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100 placeholder:text-yellow-100/30"
+              />
+              <div className="flex gap-1">
+                <input
+                  type="date"
+                  value={toDateInput(meta.takenAt)}
+                  onChange={e => onChange(photo.id, withField(meta, 'takenAt', fromDateInput(e.target.value)))}
+                  className="w-28 bg-black/60 border border-yellow-500/30 rounded px-1 py-1 text-yellow-100 [color-scheme:dark]"
+                />
+                <input
+                  type="text"
+                  placeholder="By"
+                  maxLength={MAX_CAPTION_LENGTH}
+                  value={meta.author ?? ''}
+                  onChange={e => onChange(photo.id, withField(meta, 'author', e.target.value))}
+                  className="flex-1 min-w-0 bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100 placeholder:text-yellow-100/30"
+                />
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+export default PhotoDetailsPanel;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { PhotoEntry } from '../types';
+
+interface Props {
+  photos: PhotoEntry[];
+  byDate: boolean;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onEdit: (id: string) => void;
+  onByDateChange: (byDate: boolean) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Small management panel for the saved photos: reorder, caption, remove, clear
+const PhotoLibraryPanel: React.FC<Props> = ({ photos, byDate, onRemove, onMove, onEdit, onByDateChange, onClear, onClose }) => {
+  const handleClear = () => {
+    if (window.confirm('Remove all saved photos from this device?')) onClear();
+  };
+
+  return (
+    <div className="w-64 max-h-[60vh] flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+        <span className="font-bold tracking-widest uppercase">My Photos ({photos.length})</span>
+        <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+      </div>
+
+      {photos.length === 0 ? (
+        <p className="p-3 text-yellow-100/60">No saved photos yet.</p>
+      ) : (
+        <ul className="overflow-y-auto p-2 flex flex-col gap-1">
+          {photos.map((photo, index) => (
+            <li key={photo.id} className="flex items-center gap-2 p-1 rounded hover:bg-white/5">
+              <img src={photo.url} alt={photo.name} className="w-10 h-10 object-cover rounded border border-yellow-500/30" />
+              <span className="flex-1 truncate" title={photo.name}>{photo.meta?.caption || photo.name}</span>
+              <button
+                onClick={() => onEdit(photo.id)}
+                className="px-1 hover:text-yellow-300"
+                aria-label="Edit details"
+              >✎</button>
+              <button
+                onClick={() => onMove(photo.id, -1)}
+                disabled={index === 0 || byDate}
+                className="px-1 hover:text-yellow-300 disabled:opacity-20"
+                aria-label="Move up"
+              >▲</button>
+              <button
+                onClick={() => onMove(photo.id, 1)}
+                disabled={index === photos.length - 1 || byDate}
+                className="px-1 hover:text-yellow-300 disabled:opacity-20"
+                aria-label="Move down"
+              >▼</button>
+              <button
+                onClick={() => onRemove(photo.id)}
+                className="px-1 text-red-400 hover:text-red-300"
+                aria-label="Remove"
+              >✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {photos.length > 0 && (
+        <div className="px-3 py-2 border-t border-yellow-500/20 flex justify-between items-center">
+          <label className="flex items-center gap-1" title="Oldest photos at the bottom of the tree, newest at the top">
+            <input
+              type="checkbox"
+              checked={byDate}
+              onChange={e => onByDateChange(e.target.checked)}
+              className="accent-yellow-400"
+            />
+            <span>Stack by date</span>
+          </label>
+          <button onClick={handleClear} className="text-red-400 hover:text-red-300 uppercase tracking-widest">
+            Clear Library
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoLibraryPanel;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { QUALITY_TIERS, QualityManager, QualityTier } from '../utils/qualityManager';
+import { useQuality } from '../hooks/useQuality';
+
+interface Props {
+  quality: QualityManager;
+}
+
+// Live FPS and the active tier, with a picker to pin a tier or go back to automatic
+const QualityOverlay: React.FC<Props> = ({ quality }) => {
+  const { tier, auto, fps } = useQuality(quality);
+  const fpsColor = fps >= 55 ? 'text-green-400' : fps >= 40 ? 'text-yellow-300' : 'text-red-400';
+
+  return (
+    <div className="pointer-events-auto flex items-center gap-2 bg-black/60 border border-yellow-500/20 rounded px-2 py-1 text-[10px] font-mono text-yellow-100/70">
+      <span className={fpsColor}>{fps > 0 ? fps : '--'} FPS</span>
+      <select
+        value={auto ? 'AUTO' : tier}
+        onChange={e => quality.setOverride(e.target.value === 'AUTO' ? null : e.target.value as QualityTier)}
+        className="bg-transparent text-yellow-100/80 outline-none cursor-pointer"
+        title="Rendering quality"
+      >
+        <option value="AUTO" className="bg-black">Auto ({tier})</option>
+        {QUALITY_TIERS.map(t => <option key={t} value={t} className="bg-black">{t}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default QualityOverlay;
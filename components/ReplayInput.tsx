@@ -0,0 +1,34 @@
+import React, { useEffect, useRef } from 'react';
+import { GestureEvent, HandGesture } from '../types';
+import { ReplayInputSource } from '../utils/inputSources';
+import { LandmarkRecording } from '../utils/landmarkRecording';
+
+interface Props {
+  recording: LandmarkRecording;
+  onGestureUpdate: (gesture: HandGesture) => void;
+  onGestureEvent: (event: GestureEvent) => void;
+}
+
+// Logic-only stand-in for HandManager that loops a landmark recording
+const ReplayInput: React.FC<Props> = ({ recording, onGestureUpdate, onGestureEvent }) => {
+  const onGestureUpdateRef = useRef(onGestureUpdate);
+  const onGestureEventRef = useRef(onGestureEvent);
+
+  useEffect(() => {
+    onGestureUpdateRef.current = onGestureUpdate;
+    onGestureEventRef.current = onGestureEvent;
+  }, [onGestureUpdate, onGestureEvent]);
+
+  useEffect(() => {
+    const source = new ReplayInputSource(recording);
+    source.start({
+      onGestureUpdate: gesture => onGestureUpdateRef.current(gesture),
+      onGestureEvent: event => onGestureEventRef.current(event)
+    });
+    return () => source.stop();
+  }, [recording]);
+
+  return null;
+};
+
+export default ReplayInput;
@@ -0,0 +1,66 @@
+import React from 'react';
+
+export interface ShareStatus {
+  message: string;
+  error: boolean;
+}
+
+interface Props {
+  status: ShareStatus | null;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onCopyLink: () => void;
+  onClose: () => void;
+}
+
+// Saves the whole tree (shape, theme, weather, greeting and photos) to a file, loads
+// one back, or copies a link that rebuilds everything but the photos
+const SharePanel: React.FC<Props> = ({ status, onExport, onImport, onCopyLink, onClose }) => (
+  <div className="w-64 flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+    <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+      <span className="font-bold tracking-widest uppercase">Share</span>
+      <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+    </div>
+
+    <div className="p-3 flex flex-col gap-3">
+      <div className="flex justify-between">
+        <button
+          onClick={onExport}
+          className="px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors"
+        >
+          Export
+        </button>
+        <label className="cursor-pointer px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors">
+          Import…
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </label>
+        <button
+          onClick={onCopyLink}
+          className="px-2 py-0.5 rounded border border-yellow-500/30 hover:text-yellow-300 hover:border-yellow-300/60 transition-colors"
+        >
+          Copy link
+        </button>
+      </div>
+      <span className="text-yellow-100/50">
+        Links leave out photos. Photos from your library only load in this browser.
+      </span>
+    </div>
+
+    {status && (
+      <div className="px-3 py-2 border-t border-yellow-500/20">
+        <span className={`break-words ${status.error ? 'text-red-300' : 'text-yellow-100/80'}`}>{status.message}</span>
+      </div>
+    )}
+  </div>
+);
+
+export default SharePanel;
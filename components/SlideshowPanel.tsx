@@ -0,0 +1,80 @@
+import React from 'react';
+import { SlideshowOrder, SlideshowSettings } from '../types';
+import { SLIDESHOW_LIMITS } from '../utils/slideshow';
+
+interface Props {
+  settings: SlideshowSettings;
+  onChange: (settings: SlideshowSettings) => void;
+  onClose: () => void;
+}
+
+const ORDERS: { value: SlideshowOrder; label: string }[] = [
+  { value: 'SEQUENTIAL', label: 'In order' },
+  { value: 'SHUFFLE', label: 'Shuffled' }
+];
+
+// When the unattended slideshow kicks in, how long each photo stays and in what order
+const SlideshowPanel: React.FC<Props> = ({ settings, onChange, onClose }) => (
+  <div className="w-64 flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+    <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+      <span className="font-bold tracking-widest uppercase">Slideshow</span>
+      <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+    </div>
+
+    <div className="p-3 flex flex-col gap-3">
+      <label className="flex items-center justify-between">
+        <span>Start when nobody is around</span>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={e => onChange({ ...settings, enabled: e.target.checked })}
+          className="accent-yellow-400"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          <span>Start after</span>
+          <span className="font-mono text-yellow-100/60">{settings.idleSeconds}s without a hand</span>
+        </span>
+        <input
+          type="range"
+          {...SLIDESHOW_LIMITS.idleSeconds}
+          value={settings.idleSeconds}
+          disabled={!settings.enabled}
+          onChange={e => onChange({ ...settings, idleSeconds: Number(e.target.value) })}
+          className="accent-yellow-400 disabled:opacity-30"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          <span>Each photo</span>
+          <span className="font-mono text-yellow-100/60">{settings.slideSeconds}s</span>
+        </span>
+        <input
+          type="range"
+          {...SLIDESHOW_LIMITS.slideSeconds}
+          value={settings.slideSeconds}
+          disabled={!settings.enabled}
+          onChange={e => onChange({ ...settings, slideSeconds: Number(e.target.value) })}
+          className="accent-yellow-400 disabled:opacity-30"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span>Order</span>
+        <select
+          value={settings.order}
+          disabled={!settings.enabled}
+          onChange={e => onChange({ ...settings, order: e.target.value as SlideshowOrder })}
+          className="bg-black/60 border border-yellow-500/30 rounded px-2 py-1 text-yellow-100 disabled:opacity-30"
+        >
+          {ORDERS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </label>
+    </div>
+  </div>
+);
+
+export default SlideshowPanel;
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AppState, HandGesture, WeatherSettings } from '../types';
+import { HandInterpolator } from '../utils/handInterpolator';
+
+interface Props {
+  appState: AppState;
+  gesture: HandGesture;
+  settings: WeatherSettings;
+  sparkleColor: string;
+}
+
+const MAX_FLAKES = 30000;
+const SPARKLE_COUNT = 1500;
+
+// Flakes live in a box around the scene and wrap around its edges
+const BOX_MIN = new THREE.Vector3(-30, -11, -30);
+const BOX_SIZE = new THREE.Vector3(60, 34, 60);
+export const GROUND_Y = BOX_MIN.y;
+
+const WIND_SPEED = 4; // World units/s at full wind
+const GUST_RADIUS = 7; // How far around the hand flakes are pushed
+const GUST_STRENGTH = 0.6; // Displacement per (world unit/s) of hand speed
+const GUST_DRIFT = 0.08; // Share of the gust that keeps blowing the whole snowfall
+const GUST_DECAY = 3; // 1/s
+const ACCUMULATION_RATE = 0.01; // Ground coverage gained per second at full density
+const MELT_RATE = 0.02; // Coverage lost per second while it isn't snowing
+const SPARKLE_LIFE = 2.2; // Seconds
+
+const snowVertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform vec2 uWindOffset;
+  uniform vec2 uHand;
+  uniform vec2 uGust;
+  uniform float uPixelRatio;
+  attribute vec4 aSeed; // xyz: start in the box (0-1), w: per-flake variation
+  varying float vAlpha;
+
+  const vec3 BOX_MIN = vec3(${BOX_MIN.x.toFixed(1)}, ${BOX_MIN.y.toFixed(1)}, ${BOX_MIN.z.toFixed(1)});
+  const vec3 BOX_SIZE = vec3(${BOX_SIZE.x.toFixed(1)}, ${BOX_SIZE.y.toFixed(1)}, ${BOX_SIZE.z.toFixed(1)});
+
+  void main() {
+    float fall = uTime * (1.0 + aSeed.w * 1.5);
+    vec3 p;
+    p.y = BOX_MIN.y + mod(aSeed.y * BOX_SIZE.y - fall, BOX_SIZE.y);
+    p.x = BOX_MIN.x + mod(aSeed.x * BOX_SIZE.x + uWindOffset.x + sin(uTime * 0.7 + aSeed.w * 20.0) * 0.6, BOX_SIZE.x);
+    p.z = BOX_MIN.z + mod(aSeed.z * BOX_SIZE.z + uWindOffset.y + cos(uTime * 0.5 + aSeed.w * 15.0) * 0.6, BOX_SIZE.z);
+
+    // Flakes near the hand get shoved along with it, the whole depth of the column
+    vec2 toFlake = p.xy - uHand;
+    p.xy += uGust * exp(-dot(toFlake, toFlake) / ${(GUST_RADIUS * GUST_RADIUS).toFixed(1)});
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_PointSize = (0.6 + aSeed.w * 0.8) * uPixelRatio * (20.0 / -mvPosition.z);
+    // Fade out just above the ground, where they join the accumulated snow
+    vAlpha = smoothstep(BOX_MIN.y, BOX_MIN.y + 1.5, p.y) * (0.5 + aSeed.w * 0.5);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const snowFragmentShader = /* glsl */ `
+  varying float vAlpha;
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5);
+    if (d > 0.5) discard;
+    gl_FragColor = vec4(vec3(1.0), vAlpha * smoothstep(0.5, 0.1, d));
+  }
+`;
+
+const groundVertexShader = /* glsl */ `
+  varying vec2 vWorld;
+
+  void main() {
+    vec4 world = modelMatrix * vec4(position, 1.0);
+    vWorld = world.xz;
+    gl_Position = projectionMatrix * viewMatrix * world;
+  }
+`;
+
+const groundFragmentShader = /* glsl */ `
+  uniform float uCoverage;
+  varying vec2 vWorld;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+  }
+
+  float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0)), u.x), u.y);
+  }
+
+  void main() {
+    // Patches appear where the noise is highest first and grow into a blanket
+    float n = noise(vWorld * 0.35) * 0.6 + noise(vWorld * 1.3) * 0.4;
+    float covered = smoothstep(1.0 - uCoverage, 1.08 - uCoverage, n);
+    float edge = 1.0 - smoothstep(18.0, 30.0, length(vWorld));
+    gl_FragColor = vec4(vec3(0.85, 0.9, 1.0), covered * edge * 0.9);
+  }
+`;
+
+const sparkleVertexShader = /* glsl */ `
+  uniform float uAge;
+  uniform float uPixelRatio;
+  attribute vec3 aDirection;
+  attribute float aSpeed;
+  varying float vAlpha;
+
+  void main() {
+    float t = uAge;
+    // Fast outward throw that slows down, then drifts down
+    vec3 p = aDirection * aSpeed * (1.0 - exp(-t * 3.0)) * 6.0;
+    p.y -= 0.8 * t * t;
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_PointSize = (1.0 + aSpeed) * uPixelRatio * (20.0 / -mvPosition.z);
+    float life = clamp(1.0 - t / ${SPARKLE_LIFE.toFixed(1)}, 0.0, 1.0);
+    vAlpha = life * (0.6 + 0.4 * sin(t * 25.0 + aSpeed * 50.0));
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const sparkleFragmentShader = /* glsl */ `
+  uniform vec3 uColor;
+  varying float vAlpha;
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5);
+    if (d > 0.5) discard;
+    gl_FragColor = vec4(uColor * 3.0, vAlpha * smoothstep(0.5, 0.0, d));
+  }
+`;
+
+// Everything moves in the shaders; per frame the CPU only updates a few uniforms,
+// so the flake count is bounded by fill rate rather than JavaScript.
+const Snowfall: React.FC<Props> = ({ appState, gesture, settings, sparkleColor }) => {
+  const flakes = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    // Points need a position attribute to be drawn even though the shader ignores it
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_FLAKES * 3), 3));
+    geometry.setAttribute('aSeed', new THREE.BufferAttribute(Float32Array.from({ length: MAX_FLAKES * 4 }, () => Math.random()), 4));
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uTime: { value: 0 },
+        uWindOffset: { value: new THREE.Vector2() },
+        uHand: { value: new THREE.Vector2(0, 100) },
+        uGust: { value: new THREE.Vector2() },
+        uPixelRatio: { value: 1 }
+      },
+      vertexShader: snowVertexShader,
+      fragmentShader: snowFragmentShader,
+      transparent: true,
+      depthWrite: false
+    });
+    return { geometry, material };
+  }, []);
+
+  const ground = useMemo(() => {
+    const geometry = new THREE.CircleGeometry(30, 64).rotateX(-Math.PI / 2);
+    const material = new THREE.ShaderMaterial({
+      uniforms: { uCoverage: { value: 0 } },
+      vertexShader: groundVertexShader,
+      fragmentShader: groundFragmentShader,
+      transparent: true,
+      depthWrite: false
+    });
+    return { geometry, material };
+  }, []);
+
+  const sparkles = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    const direction = new THREE.Vector3();
+    const directions = new Float32Array(SPARKLE_COUNT * 3);
+    for (let i = 0; i < SPARKLE_COUNT; i++) {
+      direction.randomDirection().toArray(directions, i * 3);
+    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(SPARKLE_COUNT * 3), 3));
+    geometry.setAttribute('aDirection', new THREE.BufferAttribute(directions, 3));
+    geometry.setAttribute('aSpeed', new THREE.BufferAttribute(Float32Array.from({ length: SPARKLE_COUNT }, () => 0.5 + Math.random() * 2.5), 1));
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uAge: { value: SPARKLE_LIFE },
+        uPixelRatio: { value: 1 },
+        uColor: { value: new THREE.Color() }
+      },
+      vertexShader: sparkleVertexShader,
+      fragmentShader: sparkleFragmentShader,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+      toneMapped: false
+    });
+    return { geometry, material };
+  }, []);
+
+  useEffect(() => () => {
+    [flakes, ground, sparkles].forEach(({ geometry, material }) => {
+      geometry.dispose();
+      material.dispose();
+    });
+  }, [flakes, ground, sparkles]);
+
+  useEffect(() => {
+    flakes.geometry.setDrawRange(0, settings.snow ? Math.round(MAX_FLAKES * settings.density) : 0);
+  }, [flakes, settings.snow, settings.density]);
+
+  useEffect(() => {
+    (sparkles.material.uniforms.uColor.value as THREE.Color).set(sparkleColor);
+  }, [sparkles, sparkleColor]);
+
+  // Opening the palm throws a burst of sparkles out of the tree
+  const burstPending = useRef(false);
+  useEffect(() => {
+    if (appState === AppState.EXPLODED) burstPending.current = true;
+  }, [appState]);
+
+  const scratch = useMemo(() => ({
+    pointer: new THREE.Vector3(),
+    direction: new THREE.Vector3(),
+    hand: new THREE.Vector2(),
+    lastHand: null as THREE.Vector2 | null,
+    tracked: new HandInterpolator(),
+    handPosition: { x: 0.5, y: 0.5 },
+    gust: new THREE.Vector2(),
+    wind: new THREE.Vector2(),
+    coverage: 0,
+    burstAt: -Infinity
+  }), []);
+
+  useFrame((state, delta) => {
+    const s = scratch;
+    const time = state.clock.elapsedTime;
+    const pixelRatio = state.gl.getPixelRatio();
+    const falling = settings.snow && settings.density > 0;
+
+    // Hand position on the z = 0 plane in world space. Interpolated, so the gust
+    // doesn't jump every time a tracking result lands
+    const now = performance.now();
+    s.tracked.push(gesture, now);
+    const position = s.tracked.sample(now, s.handPosition);
+    s.pointer.set(position.x * 2 - 1, -(position.y * 2 - 1), 0.5).unproject(state.camera);
+    s.direction.copy(s.pointer).sub(state.camera.position).normalize();
+    const toPlane = Math.abs(s.direction.z) > 1e-4 ? -state.camera.position.z / s.direction.z : 0;
+    s.hand.set(state.camera.position.x + s.direction.x * toPlane, state.camera.position.y + s.direction.y * toPlane);
+
+    // The gust follows the hand's velocity and dies away once it stops moving
+    s.gust.multiplyScalar(Math.exp(-GUST_DECAY * delta));
+    if (s.lastHand && delta > 0) {
+      s.gust.x += (s.hand.x - s.lastHand.x) * GUST_STRENGTH;
+      s.gust.y += (s.hand.y - s.lastHand.y) * GUST_STRENGTH;
+    }
+    s.lastHand = (s.lastHand ?? new THREE.Vector2()).copy(s.hand);
+
+    s.wind.x += (settings.wind * WIND_SPEED + s.gust.x * GUST_DRIFT) * delta;
+
+    const snow = flakes.material.uniforms;
+    snow.uTime.value = time;
+    (snow.uWindOffset.value as THREE.Vector2).copy(s.wind);
+    (snow.uHand.value as THREE.Vector2).copy(s.hand);
+    (snow.uGust.value as THREE.Vector2).copy(s.gust);
+    snow.uPixelRatio.value = pixelRatio;
+
+    s.coverage = THREE.MathUtils.clamp(
+      s.coverage + (falling ? settings.density * ACCUMULATION_RATE : -MELT_RATE) * delta, 0, 1
+    );
+    ground.material.uniforms.uCoverage.value = s.coverage;
+
+    if (burstPending.current) {
+      burstPending.current = false;
+      s.burstAt = time;
+    }
+    sparkles.material.uniforms.uAge.value = Math.min(time - s.burstAt, SPARKLE_LIFE);
+    sparkles.material.uniforms.uPixelRatio.value = pixelRatio;
+  });
+
+  return (
+    <group>
+      <points geometry={flakes.geometry} material={flakes.material} frustumCulled={false} />
+      <mesh geometry={ground.geometry} material={ground.material} position={[0, GROUND_Y, 0]} renderOrder={-1} />
+      <points geometry={sparkles.geometry} material={sparkles.material} frustumCulled={false} />
+    </group>
+  );
+};
+
+export default Snowfall;
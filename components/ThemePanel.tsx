@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { parseTheme, serializeTheme } from '../utils/themes';
+
+interface Props {
+  theme: Theme;
+  themes: Theme[]; // Built-in and imported, in display order
+  onSelect: (theme: Theme) => void;
+  onImport: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+// Switches the live theme and moves themes in and out as JSON files
+const ThemePanel: React.FC<Props> = ({ theme, themes, onSelect, onImport, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeTheme(theme)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${theme.id}.theme.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseTheme(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="w-64 flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+        <span className="font-bold tracking-widest uppercase">Theme</span>
+        <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+      </div>
+
+      <ul className="p-2 flex flex-col gap-1">
+        {themes.map(t => (
+          <li key={t.id}>
+            <button
+              onClick={() => onSelect(t)}
+              className={`w-full flex items-center gap-2 p-1 rounded hover:bg-white/5 ${t.id === theme.id ? 'text-yellow-300' : ''}`}
+            >
+              <span className="flex">
+                {t.ornaments.sphere.palette.map((swatch, i) => (
+                  <span key={i} className="w-3 h-3 rounded-full -ml-1 first:ml-0 border border-black/50" style={{ background: swatch.color }} />
+                ))}
+              </span>
+              <span className="flex-1 text-left truncate">{t.name}</span>
+              {t.id === theme.id && <span>✓</span>}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="px-3 pb-2 text-red-400 break-words">{error}</p>}
+
+      <div className="px-3 py-2 border-t border-yellow-500/20 flex justify-between uppercase tracking-widest">
+        <label className="cursor-pointer hover:text-yellow-300">
+          Import
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+        <button onClick={handleExport} className="uppercase tracking-widest hover:text-yellow-300">
+          Export
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
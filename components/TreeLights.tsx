@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AppState, LayoutSelection, LightPattern, Theme } from '../types';
+import { generateTreeLayout } from '../utils/math';
+import { LIGHT_PATTERNS } from '../utils/appMachine';
+import { MAX_BULB_COLORS } from '../utils/themes';
+import { ShapeMask } from '../utils/shapeMask';
+
+interface Props {
+  appState: AppState;
+  pattern: LightPattern;
+  seed: string;
+  layout: LayoutSelection;
+  mask: ShapeMask | null;
+  colors: Theme['stringLights'];
+}
+
+const BULB_COUNT = 160;
+const BULB_RADIUS = 0.12;
+// Bulbs hang just outside the ornaments so they aren't buried in them
+const BULB_OFFSET = 1.08;
+const STAR_LIFT = 1.1; // Above the highest bulb
+const STAR_EXPLODED_LIFT = 6; // Extra height while the tree is apart
+
+const bulbVertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uPattern;
+  uniform vec3 uColors[${MAX_BULB_COLORS}];
+  uniform float uColorCount;
+  attribute float aOrder; // 0 at the bottom of the string, 1 at the top
+  attribute float aSeed;
+  varying vec3 vColor;
+
+  vec3 bulbColor(float index) {
+    return uColors[int(mod(index, uColorCount))];
+  }
+
+  void main() {
+    float index = floor(aOrder * ${BULB_COUNT}.0);
+    vec3 color = bulbColor(index);
+    float brightness;
+
+    if (uPattern < 0.5) {
+      // Chase: bright pulses running up the string
+      brightness = 0.15 + pow(fract(aOrder * 6.0 - uTime * 0.6), 6.0) * 1.85;
+    } else if (uPattern < 1.5) {
+      // Twinkle: each bulb flashes on its own rhythm
+      brightness = 0.2 + pow(0.5 + 0.5 * sin(uTime * (1.5 + aSeed * 3.0) + aSeed * 40.0), 8.0) * 1.8;
+    } else if (uPattern < 2.5) {
+      // Fade: the whole string breathes together
+      brightness = 0.2 + (0.5 + 0.5 * sin(uTime * 1.2)) * 1.3;
+    } else {
+      // Color cycle: colors roll along the string
+      float t = uTime * 0.8 + aOrder * 4.0;
+      color = mix(bulbColor(index + floor(t)), bulbColor(index + floor(t) + 1.0), smoothstep(0.7, 1.0, fract(t)));
+      brightness = 1.2;
+    }
+
+    vColor = color * brightness;
+    gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+  }
+`;
+
+const bulbFragmentShader = /* glsl */ `
+  varying vec3 vColor;
+
+  void main() {
+    gl_FragColor = vec4(vColor, 1.0);
+    #include <colorspace_fragment>
+  }
+`;
+
+const createStarGeometry = () => {
+  const shape = new THREE.Shape();
+  const points = 5;
+  for (let i = 0; i <= points * 2; i++) {
+    const radius = i % 2 === 0 ? 0.9 : 0.38;
+    const angle = (i / (points * 2)) * Math.PI * 2;
+    const x = Math.sin(angle) * radius;
+    const y = Math.cos(angle) * radius;
+    if (i === 0) shape.moveTo(x, y);
+    else shape.lineTo(x, y);
+  }
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth: 0.2, bevelEnabled: true, bevelThickness: 0.08, bevelSize: 0.06, bevelSegments: 2 });
+  geometry.center();
+  return geometry;
+};
+
+// A string of emissive bulbs threaded bottom to top through the current layout,
+// with a glowing star at the apex. Bulb colors animate entirely in the shader.
+const TreeLights: React.FC<Props> = ({ appState, pattern, seed, layout, mask, colors }) => {
+  const bulbRef = useRef<THREE.InstancedMesh>(null);
+  const starRef = useRef<THREE.Mesh>(null);
+
+  const bulbs = useMemo(() => {
+    const particles = generateTreeLayout(BULB_COUNT, [], `${seed}/lights`, layout, mask);
+    const homes = particles.map(p => p.treePosition.clone().multiply(new THREE.Vector3(BULB_OFFSET, 1, BULB_OFFSET)));
+    const apex = homes.reduce((top, p) => (p.y > top.y ? p : top), homes[0]).clone();
+    apex.y += STAR_LIFT;
+    return { particles, homes, apex };
+  }, [seed, layout, mask]);
+
+  // Bulb positions persist across layout changes so the string morphs with the ornaments
+  const current = useRef<THREE.Vector3[]>([]);
+
+  const geometry = useMemo(() => {
+    const geometry = new THREE.SphereGeometry(BULB_RADIUS, 8, 8);
+    geometry.setAttribute('aOrder', new THREE.InstancedBufferAttribute(Float32Array.from({ length: BULB_COUNT }, (_, i) => i / BULB_COUNT), 1));
+    geometry.setAttribute('aSeed', new THREE.InstancedBufferAttribute(Float32Array.from({ length: BULB_COUNT }, () => Math.random()), 1));
+    return geometry;
+  }, []);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTime: { value: 0 },
+      uPattern: { value: 0 },
+      uColors: { value: Array.from({ length: MAX_BULB_COLORS }, () => new THREE.Color()) },
+      uColorCount: { value: 1 }
+    },
+    vertexShader: bulbVertexShader,
+    fragmentShader: bulbFragmentShader,
+    toneMapped: false
+  }), []);
+
+  const starGeometry = useMemo(createStarGeometry, []);
+  const starMaterial = useMemo(() => new THREE.MeshStandardMaterial({ emissiveIntensity: 2.5, toneMapped: false, metalness: 0.5, roughness: 0.3 }), []);
+
+  useEffect(() => {
+    const palette = colors.colors.slice(0, MAX_BULB_COLORS);
+    palette.forEach((color, i) => (material.uniforms.uColors.value[i] as THREE.Color).set(color));
+    material.uniforms.uColorCount.value = palette.length;
+    starMaterial.color.set(colors.star);
+    starMaterial.emissive.set(colors.star);
+  }, [colors, material, starMaterial]);
+
+  useEffect(() => () => {
+    geometry.dispose();
+    material.dispose();
+    starGeometry.dispose();
+    starMaterial.dispose();
+  }, [geometry, material, starGeometry, starMaterial]);
+
+  const scratch = useMemo(() => ({ dummy: new THREE.Object3D(), target: new THREE.Vector3() }), []);
+
+  useFrame((state, delta) => {
+    const mesh = bulbRef.current;
+    const star = starRef.current;
+    if (!mesh || !star) return;
+    const { dummy, target } = scratch;
+    const step = Math.min(1, delta * 3);
+
+    material.uniforms.uTime.value = state.clock.elapsedTime;
+    material.uniforms.uPattern.value = LIGHT_PATTERNS.indexOf(pattern);
+
+    if (current.current.length !== BULB_COUNT) {
+      current.current = bulbs.particles.map(p => p.position.clone());
+    }
+
+    for (let i = 0; i < BULB_COUNT; i++) {
+      const particle = bulbs.particles[i];
+      if (appState === AppState.TREE) target.copy(bulbs.homes[i]);
+      else if (appState === AppState.EXPLODED) target.copy(particle.explodedPosition);
+      else target.copy(particle.explodedPosition).multiplyScalar(1.5); // FOCUS: out of the way
+
+      dummy.position.copy(current.current[i].lerp(target, step));
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+
+    // The star rises clear of the cloud while the tree is apart and settles back on top
+    target.copy(bulbs.apex);
+    if (appState !== AppState.TREE) target.y += STAR_EXPLODED_LIFT;
+    star.position.lerp(target, step);
+    star.rotation.y += delta * 0.8;
+    const pulse = 1 + Math.sin(state.clock.elapsedTime * 2) * 0.06;
+    star.scale.setScalar(pulse);
+  });
+
+  return (
+    <group>
+      <instancedMesh ref={bulbRef} args={[geometry, material, BULB_COUNT]} frustumCulled={false} />
+      <mesh ref={starRef} geometry={starGeometry} material={starMaterial} position={[0, 12, 0]} />
+    </group>
+  );
+};
+
+export default TreeLights;
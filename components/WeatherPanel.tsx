@@ -0,0 +1,65 @@
+import React from 'react';
+import { WeatherSettings } from '../types';
+
+interface Props {
+  settings: WeatherSettings;
+  onChange: (settings: WeatherSettings) => void;
+  onClose: () => void;
+}
+
+// Snowfall on/off, how heavily it falls and which way the wind blows
+const WeatherPanel: React.FC<Props> = ({ settings, onChange, onClose }) => (
+  <div className="w-64 flex flex-col bg-black/80 border border-yellow-500/30 rounded-lg backdrop-blur-md text-yellow-100 text-xs shadow-[0_0_20px_rgba(255,215,0,0.15)]">
+    <div className="flex justify-between items-center px-3 py-2 border-b border-yellow-500/20">
+      <span className="font-bold tracking-widest uppercase">Weather</span>
+      <button onClick={onClose} className="text-yellow-100/60 hover:text-white" aria-label="Close">✕</button>
+    </div>
+
+    <div className="p-3 flex flex-col gap-3">
+      <label className="flex items-center justify-between">
+        <span>Snow</span>
+        <input
+          type="checkbox"
+          checked={settings.snow}
+          onChange={e => onChange({ ...settings, snow: e.target.checked })}
+          className="accent-yellow-400"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          <span>Density</span>
+          <span className="font-mono text-yellow-100/60">{Math.round(settings.density * 100)}%</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.density}
+          disabled={!settings.snow}
+          onChange={e => onChange({ ...settings, density: Number(e.target.value) })}
+          className="accent-yellow-400 disabled:opacity-30"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          <span>Wind</span>
+          <span className="font-mono text-yellow-100/60">{settings.wind > 0 ? '→' : settings.wind < 0 ? '←' : ''} {Math.abs(Math.round(settings.wind * 100))}%</span>
+        </span>
+        <input
+          type="range"
+          min={-1}
+          max={1}
+          step={0.05}
+          value={settings.wind}
+          onChange={e => onChange({ ...settings, wind: Number(e.target.value) })}
+          className="accent-yellow-400"
+        />
+      </label>
+    </div>
+  </div>
+);
+
+export default WeatherPanel;
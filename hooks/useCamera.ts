@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CameraError, CameraErrorKind, CameraResolution, DEFAULT_CAMERA_RESOLUTION, listCameras, openCamera } from '../utils/camera';
+
+export type CameraStatus = 'IDLE' | 'STARTING' | 'READY' | 'ERROR';
+
+export interface CameraController {
+  status: CameraStatus;
+  stream: MediaStream | null;
+  error: CameraErrorKind | null;
+  devices: MediaDeviceInfo[];
+  deviceId: string | null; // The camera actually in use, once known
+  resolution: CameraResolution;
+  // Resolves false when the camera couldn't be opened; `error` says why
+  start: () => Promise<boolean>;
+  selectDevice: (deviceId: string) => void;
+  setResolution: (resolution: CameraResolution) => void;
+}
+
+// The webcam stream as React state. Owns the stream: it is stopped whenever it is
+// replaced and on unmount. Nothing is requested until start() is called, so the
+// permission prompt only appears once the user asks for the experience.
+export const useCamera = (): CameraController => {
+  const [status, setStatus] = useState<CameraStatus>('IDLE');
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<CameraErrorKind | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [resolution, setResolutionState] = useState<CameraResolution>(DEFAULT_CAMERA_RESOLUTION);
+  const streamRef = useRef<MediaStream | null>(null);
+  // Only the latest open() may install its stream, however the requests resolve
+  const requestRef = useRef(0);
+
+  const refreshDevices = useCallback(() => {
+    listCameras()
+      .then(setDevices)
+      .catch(e => console.warn('Could not list cameras', e));
+  }, []);
+
+  const release = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    streamRef.current = null;
+  }, []);
+
+  const open = useCallback(async (nextDeviceId: string | null, nextResolution: CameraResolution) => {
+    const request = ++requestRef.current;
+    // Some cameras can't be opened twice, so let go of the current one first
+    release();
+    setStream(null);
+    setStatus('STARTING');
+    setError(null);
+
+    try {
+      const opened = await openCamera({ deviceId: nextDeviceId, resolution: nextResolution });
+      if (request !== requestRef.current) {
+        opened.getTracks().forEach(track => track.stop());
+        return false;
+      }
+      const [track] = opened.getVideoTracks();
+      track.onended = () => {
+        release();
+        setStream(null);
+        setError('DISCONNECTED');
+        setStatus('ERROR');
+      };
+      streamRef.current = opened;
+      setStream(opened);
+      setDeviceId(track.getSettings().deviceId ?? nextDeviceId);
+      setStatus('READY');
+      refreshDevices();
+      return true;
+    } catch (e) {
+      if (request !== requestRef.current) return false;
+      console.warn('Camera failed to start', e);
+      setError(e instanceof CameraError ? e.kind : 'UNKNOWN');
+      setStatus('ERROR');
+      return false;
+    }
+  }, [release, refreshDevices]);
+
+  const start = useCallback(() => open(deviceId, resolution), [open, deviceId, resolution]);
+
+  const selectDevice = useCallback((id: string) => {
+    setDeviceId(id);
+    open(id, resolution);
+  }, [open, resolution]);
+
+  const setResolution = useCallback((next: CameraResolution) => {
+    setResolutionState(next);
+    // Only reopen a running camera; otherwise it applies on the next start()
+    if (streamRef.current) open(deviceId, next);
+  }, [open, deviceId]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => {
+      mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+      requestRef.current++;
+      release();
+    };
+  }, [refreshDevices, release]);
+
+  return { status, stream, error, devices, deviceId, resolution, start, selectDevice, setResolution };
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { MachineEvent, MachineSnapshot, StateMachine } from '../utils/stateMachine';
+
+// Re-renders the caller whenever the machine transitions
+export const useMachineSnapshot = <S extends string, E extends MachineEvent, C>(
+  machine: StateMachine<S, E, C>
+): MachineSnapshot<S, C> => useSyncExternalStore(machine.subscribe, machine.getSnapshot);
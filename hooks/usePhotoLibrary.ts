@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PhotoEntry, PhotoMeta } from '../types';
+import { processImage } from '../utils/imagePipeline';
+import { StoredPhoto, addPhotos, clearLibrary, loadPhotos, removePhoto, reorderPhotos, updatePhotoMeta } from '../utils/photoLibrary';
+
+const toEntry = (photo: StoredPhoto): PhotoEntry => ({
+  id: photo.id,
+  name: photo.name,
+  addedAt: photo.addedAt,
+  url: URL.createObjectURL(photo.blob),
+  aspect: photo.aspect,
+  meta: photo.meta ?? {}
+});
+
+// Run an upload through the image pipeline, falling back to the original file if it can't be decoded.
+// The date comes from EXIF when the camera wrote one, else from the file itself.
+const prepare = async (file: File) => {
+  try {
+    const { blob, aspect, exif } = await processImage(file);
+    const meta: PhotoMeta = { takenAt: exif.takenAt ?? file.lastModified };
+    if (exif.artist) meta.author = exif.artist;
+    return { name: file.name, blob, aspect, meta };
+  } catch (e) {
+    console.warn(`Could not process ${file.name}, using it as is`, e);
+    return { name: file.name, blob: file as Blob, aspect: 1, meta: { takenAt: file.lastModified } };
+  }
+};
+
+// The persisted photo library as React state. Owns the object URLs: one is created
+// per photo when it's loaded or added and revoked when it's removed or on unmount.
+export const usePhotoLibrary = () => {
+  const [photos, setPhotos] = useState<PhotoEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  // Mirror of `photos` so callbacks and cleanup see the latest list
+  const photosRef = useRef<PhotoEntry[]>([]);
+
+  const update = useCallback((next: PhotoEntry[]) => {
+    photosRef.current = next;
+    setPhotos(next);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPhotos()
+      .then(stored => {
+        if (cancelled) return;
+        // Keep anything uploaded while the library was still loading
+        const current = photosRef.current;
+        const fresh = stored.filter(photo => !current.some(p => p.id === photo.id));
+        update([...fresh.map(toEntry), ...current]);
+      })
+      .catch(e => console.warn('Photo library unavailable, photos will not persist', e))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+      photosRef.current.forEach(photo => URL.revokeObjectURL(photo.url));
+      photosRef.current = [];
+    };
+  }, [update]);
+
+  // Resolves with the new entries, e.g. to ask for their captions
+  const add = useCallback(async (files: File[]): Promise<PhotoEntry[]> => {
+    const items = await Promise.all(files.map(prepare));
+    let stored: StoredPhoto[];
+    try {
+      stored = await addPhotos(items);
+    } catch (e) {
+      // Keep the photos for this session even if they can't be saved
+      console.warn('Failed to save photos to the library', e);
+      const now = Date.now();
+      stored = items.map((item, i) => ({ ...item, id: crypto.randomUUID(), addedAt: now, order: i }));
+    }
+    const added = stored.map(toEntry);
+    update([...photosRef.current, ...added]);
+    return added;
+  }, [update]);
+
+  const remove = useCallback((id: string) => {
+    const photo = photosRef.current.find(p => p.id === id);
+    if (!photo) return;
+    URL.revokeObjectURL(photo.url);
+    update(photosRef.current.filter(p => p.id !== id));
+    removePhoto(id).catch(e => console.warn('Failed to remove photo from the library', e));
+  }, [update]);
+
+  // Moves a photo one step up or down the list
+  const move = useCallback((id: string, offset: -1 | 1) => {
+    const list = [...photosRef.current];
+    const from = list.findIndex(p => p.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= list.length) return;
+    [list[from], list[to]] = [list[to], list[from]];
+    update(list);
+    reorderPhotos(list.map(p => p.id)).catch(e => console.warn('Failed to reorder the library', e));
+  }, [update]);
+
+  const setMeta = useCallback((id: string, meta: PhotoMeta) => {
+    update(photosRef.current.map(p => (p.id === id ? { ...p, meta } : p)));
+    updatePhotoMeta(id, meta).catch(e => console.warn('Failed to save photo details', e));
+  }, [update]);
+
+  const clear = useCallback(() => {
+    photosRef.current.forEach(photo => URL.revokeObjectURL(photo.url));
+    update([]);
+    clearLibrary().catch(e => console.warn('Failed to clear the library', e));
+  }, [update]);
+
+  return { photos, loaded, add, remove, move, setMeta, clear };
+};
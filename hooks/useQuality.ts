@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { QualityManager, QualitySettings, QualitySnapshot } from '../utils/qualityManager';
+
+// Re-renders the caller whenever the tier or measured FPS changes
+export const useQuality = (manager: QualityManager): QualitySnapshot =>
+  useSyncExternalStore(manager.subscribe, manager.getSnapshot);
+
+// Only re-renders on a tier change, not on every FPS reading
+export const useQualitySettings = (manager: QualityManager): QualitySettings =>
+  useSyncExternalStore(manager.subscribe, () => manager.getSnapshot().settings);
@@ -0,0 +1,39 @@
+import { useEffect, useMemo } from 'react';
+import { AppState, SlideshowSettings } from '../types';
+import { AppMachine } from '../utils/appMachine';
+import { SlideshowPlaylist } from '../utils/slideshow';
+import { useMachineSnapshot } from './useMachineSnapshot';
+
+// Drives the slideshow from the outside of the machine: starts it once `idle` has held
+// for the configured time, steps it on a timer, and ends it if it is switched off or
+// runs out of photos. Gestures end it through the machine itself.
+export const useSlideshow = (machine: AppMachine, settings: SlideshowSettings, photoIds: number[], idle: boolean) => {
+  const { state } = useMachineSnapshot(machine);
+  const running = state === AppState.SLIDESHOW;
+  const playlist = useMemo(() => new SlideshowPlaylist(photoIds, settings.order), [photoIds, settings.order]);
+  const available = settings.enabled && photoIds.length > 0;
+
+  useEffect(() => {
+    if (running || !idle || !available) return;
+    const timer = window.setTimeout(() => {
+      const photoId = playlist.next();
+      if (photoId !== null) machine.send({ type: 'IDLE', photoId });
+    }, settings.idleSeconds * 1000);
+    return () => window.clearTimeout(timer);
+  }, [machine, running, idle, available, playlist, settings.idleSeconds]);
+
+  useEffect(() => {
+    if (!running) return;
+    if (!available) {
+      machine.send({ type: 'WAKE' });
+      return;
+    }
+    const timer = window.setInterval(() => {
+      const photoId = playlist.next();
+      if (photoId !== null) machine.send({ type: 'NEXT_SLIDE', photoId });
+    }, settings.slideSeconds * 1000);
+    return () => window.clearInterval(timer);
+  }, [machine, running, available, playlist, settings.slideSeconds]);
+
+  return running;
+};
@@ -1,6 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/cinzel/400.css';
+import '@fontsource/cinzel/700.css';
+import '@fontsource/lato/300.css';
+import '@fontsource/lato/400.css';
+import './index.css';
 import App from './App';
+import { registerServiceWorker } from './utils/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,3 +19,5 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+registerServiceWorker();
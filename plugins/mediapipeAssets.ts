@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// Serves the MediaPipe wasm runtimes and models from the app's own origin instead
+// of a CDN: straight out of node_modules in dev, and copied into the build under
+// `<base>mediapipe/`. The hand landmarker model isn't published to npm, so it is
+// downloaded once into node_modules/.cache and reused after that.
+
+export const MEDIAPIPE_DIR = 'mediapipe';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const MODEL_CACHE = path.resolve('node_modules/.cache/mediapipe/hand_landmarker.task');
+
+const TASKS_VISION_WASM = path.resolve('node_modules/@mediapipe/tasks-vision/wasm');
+const HANDS = path.resolve('node_modules/@mediapipe/hands');
+
+// The worker loads tasks-vision as an ES module, so only the module build is needed
+const TASKS_VISION_FILES = ['vision_wasm_module_internal.js', 'vision_wasm_module_internal.wasm'];
+// Everything the legacy main-thread fallback fetches through locateFile
+const HANDS_FILES = [
+  'hands.binarypb',
+  'hands_solution_packed_assets.data',
+  'hands_solution_packed_assets_loader.js',
+  'hands_solution_simd_wasm_bin.data',
+  'hands_solution_simd_wasm_bin.js',
+  'hands_solution_simd_wasm_bin.wasm',
+  'hands_solution_wasm_bin.js',
+  'hands_solution_wasm_bin.wasm',
+  'hand_landmark_full.tflite',
+  'hand_landmark_lite.tflite'
+];
+
+// Only needed by browsers that can't run the worker; not worth precaching for everyone
+export const MEDIAPIPE_FALLBACK_DIR = `${MEDIAPIPE_DIR}/hands/`;
+
+// Path under the mediapipe directory -> file on disk
+const assetFiles = () => {
+  const files = new Map<string, string>();
+  TASKS_VISION_FILES.forEach(file => files.set(`tasks-vision/${file}`, path.join(TASKS_VISION_WASM, file)));
+  HANDS_FILES.forEach(file => files.set(`hands/${file}`, path.join(HANDS, file)));
+  if (fs.existsSync(MODEL_CACHE)) files.set('models/hand_landmarker.task', MODEL_CACHE);
+  return files;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm'
+};
+
+// Without the model the worker fails to start and HandManager falls back to the
+// legacy pipeline, whose model ships with @mediapipe/hands, so this only warns
+const downloadModel = async (warn: (message: string) => void) => {
+  if (fs.existsSync(MODEL_CACHE)) return;
+  try {
+    const response = await fetch(MODEL_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    fs.mkdirSync(path.dirname(MODEL_CACHE), { recursive: true });
+    fs.writeFileSync(MODEL_CACHE, Buffer.from(await response.arrayBuffer()));
+  } catch (e) {
+    warn(`Could not download the hand landmarker model (${e instanceof Error ? e.message : e}); ` +
+      `hand tracking will use the main-thread fallback. Place it at ${MODEL_CACHE} to bundle it.`);
+  }
+};
+
+export const mediapipeAssets = (): Plugin => {
+  let base = '/';
+
+  return {
+    name: 'mediapipe-assets',
+
+    configResolved(config) {
+      base = config.base;
+    },
+
+    async buildStart() {
+      await downloadModel(message => this.warn(message));
+    },
+
+    configureServer(server) {
+      const prefix = `${base}${MEDIAPIPE_DIR}/`;
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split('?')[0];
+        if (!url?.startsWith(prefix)) return next();
+        const file = assetFiles().get(url.slice(prefix.length));
+        if (!file) return next();
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+
+    generateBundle() {
+      assetFiles().forEach((file, name) => {
+        this.emitFile({ type: 'asset', fileName: `${MEDIAPIPE_DIR}/${name}`, source: fs.readFileSync(file) });
+      });
+    }
+  };
+};
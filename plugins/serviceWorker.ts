@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// Emits sw.js with a precache list of everything in the build, so after one visit
+// the app runs with no network at all. The cache name is derived from the list,
+// and every bundled file name carries a content hash, so a new build replaces the
+// whole cache and no stale file survives an update.
+
+export interface ServiceWorkerOptions {
+  // Build paths starting with any of these are cached the first time they're fetched instead
+  runtimeOnly?: string[];
+  // Files from other origins to precache too (pinned URLs whose contents never change).
+  // Their host being down doesn't stop the install, it only leaves them uncached.
+  remote?: string[];
+}
+
+const CACHE_PREFIX = 'gesture-tree-';
+
+const serviceWorkerSource = (version: string, precache: string[], remote: string[]) => /* js */ `
+const CACHE = ${JSON.stringify(CACHE_PREFIX + version)};
+const PRECACHE = ${JSON.stringify(precache)};
+const REMOTE = ${JSON.stringify(remote)};
+
+const scoped = path => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(PRECACHE.map(scoped))
+        .then(() => Promise.allSettled(REMOTE.map(url => cache.add(url)))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith(${JSON.stringify(CACHE_PREFIX)}) && key !== CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache first: on a flaky connection a slow network must not hold up the page
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  if (request.method !== 'GET' || request.headers.has('range')) return;
+  if (new URL(request.url).origin !== self.location.origin && !REMOTE.includes(request.url)) return;
+
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE);
+    const key = request.mode === 'navigate' ? scoped('index.html') : request;
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok && request.mode !== 'navigate') cache.put(request, response.clone());
+    return response;
+  })());
+});
+`;
+
+const listFiles = (dir: string, prefix = ''): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]
+  );
+};
+
+export const serviceWorker = ({ runtimeOnly = [], remote = [] }: ServiceWorkerOptions = {}): Plugin => {
+  let publicDir = '';
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    // After the other plugins have added their files to the bundle
+    enforce: 'post',
+
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+
+    generateBundle(_options, bundle) {
+      const files = [...Object.keys(bundle), ...listFiles(publicDir)]
+        .filter(file => !file.endsWith('.map') && !runtimeOnly.some(prefix => file.startsWith(prefix)))
+        .sort();
+      const hash = crypto.createHash('sha256');
+      [...files, ...remote].forEach(file => {
+        hash.update(file);
+        // index.html keeps its name between builds, so hash its contents too
+        const output = bundle[file];
+        if (output?.type === 'asset' && file.endsWith('.html')) hash.update(output.source);
+      });
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: serviceWorkerSource(hash.digest('hex').slice(0, 12), files, remote)
+      });
+    }
+  };
+};
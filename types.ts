@@ -3,9 +3,13 @@ import * as THREE from 'three';
 export enum AppState {
   TREE = 'TREE',
   EXPLODED = 'EXPLODED',
-  FOCUS = 'FOCUS'
+  FOCUS = 'FOCUS',
+  SLIDESHOW = 'SLIDESHOW' // Unattended: photos take turns in focus while the camera orbits
 }
 
+// How the string lights on the tree animate
+export type LightPattern = 'CHASE' | 'TWINKLE' | 'FADE' | 'COLOR_CYCLE';
+
 export type ParticleData = {
   id: number;
   position: THREE.Vector3; // Current position
@@ -17,12 +21,186 @@ export type ParticleData = {
   color: THREE.Color;
   type: 'SPHERE' | 'CUBE' | 'PHOTO';
   textureUrl?: string;
+  aspect?: number; // Photo width / height
+  meta?: PhotoMeta; // Shown on the caption card while the photo is in focus
 };
 
+export type Handedness = 'Left' | 'Right';
+
+// Per-hand state when more than one hand is tracked
+export interface TrackedHand {
+  handedness: Handedness;
+  isFist: boolean;
+  isOpenPalm: boolean;
+  isPinching: boolean;
+  position: { x: number; y: number }; // Normalized 0-1
+}
+
+// Relationship between both hands, present only while two are tracked
+export interface TwoHandState {
+  distance: number; // Normalized distance between the hands
+  angle: number; // Radians, direction from the left hand to the right hand
+}
+
 export interface HandGesture {
   isFist: boolean;
   isOpenPalm: boolean;
   isPinching: boolean;
-  handPosition: { x: number; y: number }; // Normalized 0-1
-  rotation: number;
+  // A hand is in view. Fallback input is always tracked.
+  tracked: boolean;
+  handPosition: { x: number; y: number }; // Normalized 0-1, held at the last spot while untracked
+  rotation: number; // Hand roll in radians, 0 with fingers up, positive tilting clockwise
+  hands: TrackedHand[];
+  twoHand: TwoHandState | null;
+  timestamp: number; // performance.now() when the camera frame was captured, 0 before any input
+}
+
+// Single MediaPipe hand landmark, normalized to the video frame
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// SWIPE is momentary: its start and end are emitted together
+export type GestureKind = 'FIST' | 'OPEN_PALM' | 'PINCH' | 'BOTH_PALMS' | 'SWIPE';
+
+// Landmarks of one detected hand in a frame
+export interface HandFrame {
+  landmarks: Landmark[];
+  handedness: Handedness;
+}
+
+// Discrete, debounced gesture transition emitted by the recognizer
+export interface GestureEvent {
+  type: 'start' | 'end';
+  gesture: GestureKind;
+  timestamp: number; // ms
+  velocity?: number; // SWIPE only: horizontal speed in screen widths per second, positive to the right
+}
+
+// Where gestures are currently coming from. REPLAY plays back a landmark recording.
+export type InputSourceKind = 'HAND' | 'KEYBOARD_MOUSE' | 'TOUCH' | 'REPLAY';
+
+// What the App falls back to when there's no camera
+export type FallbackInputKind = 'KEYBOARD_MOUSE' | 'TOUCH';
+
+// Receiver shared by every input source, so the App doesn't care which device is active
+export interface GestureSink {
+  onGestureUpdate: (gesture: HandGesture) => void;
+  onGestureEvent: (event: GestureEvent) => void;
+}
+
+export interface InputSource {
+  readonly kind: InputSourceKind;
+  start(sink: GestureSink): void;
+  stop(): void;
+}
+
+// What the caption card says about a photo; every part is optional
+export interface PhotoMeta {
+  caption?: string;
+  takenAt?: number; // ms since epoch, from EXIF or else the file's lastModified
+  author?: string;
+}
+
+// What the scene needs to hang a photo on the tree
+export interface PhotoSource {
+  url: string;
+  aspect: number; // width / height
+  meta?: PhotoMeta;
+}
+
+// A photo from the local library, ready to display
+export interface PhotoEntry extends PhotoSource {
+  id: string;
+  name: string;
+  addedAt: number; // ms since epoch
+  // url is an object URL, revoked when the photo is removed
+}
+
+// Values for a layout's parameters, keyed by parameter name
+export type LayoutParams = Record<string, number | string>;
+
+// Which registered layout the particles form, and how it is configured
+export interface LayoutSelection {
+  id: string;
+  params: LayoutParams;
+}
+
+// Colors are CSS hex strings so a theme round-trips through JSON
+export interface WeightedColor {
+  color: string;
+  weight: number; // Relative, need not sum to 1
+}
+
+export interface OrnamentStyle {
+  weight: number; // Share of ornaments of this type, relative to the others
+  palette: WeightedColor[];
+}
+
+export interface ThemeLight {
+  color: string;
+  intensity: number;
+  position: [number, number, number];
+}
+
+// Everything about the scene's look, switchable at runtime
+export interface Theme {
+  id: string;
+  name: string;
+  ornaments: { sphere: OrnamentStyle; cube: OrnamentStyle };
+  material: { roughness: number; metalness: number; envMapIntensity: number };
+  frameColor: string; // Photo frames
+  background: string;
+  environment: string; // drei Environment preset
+  exposure: number;
+  lights: {
+    ambient: { color: string; intensity: number };
+    directional: ThemeLight;
+    points: ThemeLight[];
+  };
+  stringLights: { colors: string[]; star: string }; // Bulbs cycle through up to 4 colors
+  stars: { count: number; factor: number; saturation: number };
+  bloom: { intensity: number; threshold: number; radius: number };
+  vignette: { offset: number; darkness: number };
+}
+
+// User-facing snowfall controls
+export interface WeatherSettings {
+  snow: boolean;
+  density: number; // 0-1, share of the flake budget that is falling
+  wind: number; // -1 (blowing left) to 1 (blowing right)
+}
+
+export type SlideshowOrder = 'SEQUENTIAL' | 'SHUFFLE';
+
+export interface SlideshowSettings {
+  enabled: boolean;
+  idleSeconds: number; // Without a tracked hand before the slideshow starts
+  slideSeconds: number; // How long each photo stays in focus
+  order: SlideshowOrder;
+}
+
+export interface AudioSettings {
+  muted: boolean;
+  volume: number; // 0-1
+}
+
+// A photo on a shared tree: either somewhere on the web, or in the photo library of
+// the browser that exported it (only resolvable there)
+export type PhotoRef =
+  | { url: string; aspect: number; meta?: PhotoMeta }
+  | { libraryId: string; name: string; aspect: number };
+
+// Everything that makes a tree look the way it does, as saved and shared
+export interface TreeConfig {
+  version: 1;
+  seed: string;
+  layout: LayoutSelection;
+  theme: string | Theme; // A built-in theme's id, or a full custom theme
+  ornamentCount: number | null; // null follows the quality tier
+  weather: WeatherSettings;
+  greeting: string;
+  photos: PhotoRef[];
 }
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, GestureEvent } from '../types';
+import { AppContext, AppEvent, GestureResolver, PINCH_HOLD_MS, createAppMachine } from './appMachine';
+
+// The events that lead from TREE into each state
+const PATHS: Record<AppState, AppEvent[]> = {
+  [AppState.TREE]: [],
+  [AppState.EXPLODED]: [{ type: 'OPEN_PALM' }],
+  [AppState.FOCUS]: [{ type: 'OPEN_PALM' }, { type: 'PINCH', photoId: 1 }],
+  [AppState.SLIDESHOW]: [{ type: 'IDLE', photoId: 1 }]
+};
+
+const machineIn = (state: AppState) => {
+  const machine = createAppMachine();
+  PATHS[state].forEach(event => machine.send(event));
+  expect(machine.state).toBe(state);
+  return machine;
+};
+
+describe('createAppMachine', () => {
+  const legal: [AppState, AppEvent, AppState, Partial<AppContext>][] = [
+    [AppState.TREE, { type: 'OPEN_PALM' }, AppState.EXPLODED, {}],
+    [AppState.TREE, { type: 'PINCH', photoId: 2 }, AppState.TREE, { lightPattern: 'TWINKLE' }],
+    [AppState.TREE, { type: 'CELEBRATE', timestamp: 500 }, AppState.TREE, { celebrationAt: 500 }],
+    [AppState.TREE, { type: 'SWIPE', velocity: -2, timestamp: 500 }, AppState.TREE, { lastSwipe: { velocity: -2, timestamp: 500 } }],
+    [AppState.TREE, { type: 'IDLE', photoId: 4 }, AppState.SLIDESHOW, { focusedPhotoId: 4 }],
+    [AppState.EXPLODED, { type: 'FIST' }, AppState.TREE, {}],
+    [AppState.EXPLODED, { type: 'PINCH', photoId: 2 }, AppState.FOCUS, { focusedPhotoId: 2 }],
+    [AppState.EXPLODED, { type: 'IDLE', photoId: 4 }, AppState.SLIDESHOW, { focusedPhotoId: 4 }],
+    [AppState.FOCUS, { type: 'FIST' }, AppState.TREE, { focusedPhotoId: null }],
+    [AppState.FOCUS, { type: 'OPEN_PALM' }, AppState.EXPLODED, { focusedPhotoId: null }],
+    [AppState.FOCUS, { type: 'CELEBRATE', timestamp: 500 }, AppState.FOCUS, { celebrationAt: 500, focusedPhotoId: 1 }],
+    [AppState.SLIDESHOW, { type: 'NEXT_SLIDE', photoId: 5 }, AppState.SLIDESHOW, { focusedPhotoId: 5 }],
+    [AppState.SLIDESHOW, { type: 'PINCH', photoId: 2 }, AppState.TREE, { focusedPhotoId: null }],
+    [AppState.SLIDESHOW, { type: 'SWIPE', velocity: 2, timestamp: 500 }, AppState.TREE, { focusedPhotoId: null, lastSwipe: null }],
+    [AppState.SLIDESHOW, { type: 'CELEBRATE', timestamp: 500 }, AppState.TREE, { celebrationAt: 500, focusedPhotoId: null }],
+    [AppState.SLIDESHOW, { type: 'WAKE' }, AppState.TREE, { focusedPhotoId: null }]
+  ];
+
+  it.each(legal)('%s + %o -> %s', (from, event, to, context) => {
+    const machine = machineIn(from);
+
+    expect(machine.send(event)).toBe(true);
+    expect(machine.state).toBe(to);
+    expect(machine.context).toMatchObject(context);
+  });
+
+  const rejected: [AppState, AppEvent][] = [
+    [AppState.TREE, { type: 'FIST' }],
+    [AppState.TREE, { type: 'NEXT_SLIDE', photoId: 2 }],
+    [AppState.TREE, { type: 'WAKE' }],
+    [AppState.EXPLODED, { type: 'OPEN_PALM' }],
+    // The guard: a pinch with no photo under the cursor
+    [AppState.EXPLODED, { type: 'PINCH', photoId: null }],
+    [AppState.FOCUS, { type: 'PINCH', photoId: 2 }],
+    [AppState.FOCUS, { type: 'SWIPE', velocity: 2, timestamp: 500 }],
+    [AppState.FOCUS, { type: 'NEXT_SLIDE', photoId: 2 }],
+    [AppState.SLIDESHOW, { type: 'IDLE', photoId: 2 }]
+  ];
+
+  it.each(rejected)('%s ignores %o', (from, event) => {
+    const machine = machineIn(from);
+    const before = machine.getSnapshot();
+
+    expect(machine.can(event)).toBe(false);
+    expect(machine.send(event)).toBe(false);
+    expect(machine.getSnapshot()).toBe(before);
+  });
+
+  it('notifies subscribers of handled events only, until they unsubscribe', () => {
+    const machine = createAppMachine();
+    const calls: [AppState, AppEvent['type'], AppState][] = [];
+    const unsubscribe = machine.subscribe((snapshot, event, previous) => calls.push([snapshot.state, event.type, previous.state]));
+
+    machine.send({ type: 'OPEN_PALM' });
+    machine.send({ type: 'PINCH', photoId: null });
+    machine.send({ type: 'SWIPE', velocity: 2, timestamp: 500 });
+    unsubscribe();
+    machine.send({ type: 'FIST' });
+
+    expect(calls).toEqual([
+      [AppState.EXPLODED, 'OPEN_PALM', AppState.TREE],
+      [AppState.EXPLODED, 'SWIPE', AppState.EXPLODED]
+    ]);
+    expect(machine.state).toBe(AppState.TREE);
+  });
+});
+
+const pinch = (type: GestureEvent['type'], timestamp: number): GestureEvent => ({ type, gesture: 'PINCH', timestamp });
+
+describe('GestureResolver', () => {
+  it('cycles the lights when a pinch on the tree is released in time', () => {
+    const resolver = new GestureResolver();
+
+    expect(resolver.resolve(pinch('start', 1000), AppState.TREE, 3)).toBeNull();
+    expect(resolver.poll(1000 + PINCH_HOLD_MS / 2)).toBe(false);
+    expect(resolver.resolve(pinch('end', 1000 + PINCH_HOLD_MS / 2), AppState.TREE, 3)).toEqual({ type: 'PINCH', photoId: 3 });
+  });
+
+  it('turns a pinch on the tree held long enough into a hold, once', () => {
+    const resolver = new GestureResolver();
+
+    resolver.resolve(pinch('start', 1000), AppState.TREE, null);
+    expect(resolver.poll(1000 + PINCH_HOLD_MS)).toBe(true);
+    expect(resolver.poll(1000 + PINCH_HOLD_MS * 2)).toBe(false);
+    expect(resolver.resolve(pinch('end', 1000 + PINCH_HOLD_MS * 2), AppState.TREE, null)).toBeNull();
+  });
+
+  it('reports a hold that ends before it was polled', () => {
+    const resolver = new GestureResolver();
+
+    resolver.resolve(pinch('start', 1000), AppState.TREE, null);
+    expect(resolver.resolve(pinch('end', 1000 + PINCH_HOLD_MS), AppState.TREE, null)).toBe('PINCH_HOLD');
+  });
+
+  it('sends other pinches as soon as they start', () => {
+    const resolver = new GestureResolver();
+
+    expect(resolver.resolve(pinch('start', 1000), AppState.EXPLODED, 7)).toEqual({ type: 'PINCH', photoId: 7 });
+    expect(resolver.holdPending).toBe(false);
+  });
+});
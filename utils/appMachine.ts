@@ -0,0 +1,168 @@
+import { AppState, GestureEvent, LightPattern } from '../types';
+import { StateMachine, Transition } from './stateMachine';
+
+export interface AppContext {
+  // The photo flown to the camera in FOCUS, or the current slide in SLIDESHOW
+  focusedPhotoId: number | null;
+  // When the last two-handed celebration burst was triggered (performance.now() ms)
+  celebrationAt: number | null;
+  // Last swipe, which the scene turns into spin or orbit momentum
+  lastSwipe: { velocity: number; timestamp: number } | null;
+  // Animation of the string lights, cycled by pinching while assembled
+  lightPattern: LightPattern;
+}
+
+export type AppEvent =
+  | { type: 'FIST' }
+  | { type: 'OPEN_PALM' }
+  // photoId is whatever sits under the hand cursor when the pinch starts
+  | { type: 'PINCH'; photoId: number | null }
+  | { type: 'CELEBRATE'; timestamp: number }
+  | { type: 'SWIPE'; velocity: number; timestamp: number }
+  // Sent by the slideshow timers rather than by gestures
+  | { type: 'IDLE'; photoId: number }
+  | { type: 'NEXT_SLIDE'; photoId: number }
+  | { type: 'WAKE' };
+
+export type AppMachine = StateMachine<AppState, AppEvent, AppContext>;
+
+export const LIGHT_PATTERNS: LightPattern[] = ['CHASE', 'TWINKLE', 'FADE', 'COLOR_CYCLE'];
+
+const clearFocus = (context: AppContext): AppContext => ({ ...context, focusedPhotoId: null });
+
+const markCelebration = (context: AppContext, event: { timestamp: number }): AppContext => ({ ...context, celebrationAt: event.timestamp });
+
+// Celebrating is allowed from every state and doesn't leave it (except the slideshow, below)
+const celebrate: Transition<AppState, Extract<AppEvent, { type: 'CELEBRATE' }>, AppContext> = {
+  action: markCelebration
+};
+
+// Swipes spin the tree or orbit the camera; they never change state
+const swipe: Transition<AppState, Extract<AppEvent, { type: 'SWIPE' }>, AppContext> = {
+  action: (context, event) => ({ ...context, lastSwipe: { velocity: event.velocity, timestamp: event.timestamp } })
+};
+
+// Pinching the assembled tree steps to the next light pattern
+const cycleLights: Transition<AppState, Extract<AppEvent, { type: 'PINCH' }>, AppContext> = {
+  action: context => ({
+    ...context,
+    lightPattern: LIGHT_PATTERNS[(LIGHT_PATTERNS.indexOf(context.lightPattern) + 1) % LIGHT_PATTERNS.length]
+  })
+};
+
+const showPhoto = (context: AppContext, event: { photoId: number }): AppContext => ({ ...context, focusedPhotoId: event.photoId });
+
+// Nobody around for a while: any state gives way to the slideshow
+const startSlideshow: Transition<AppState, Extract<AppEvent, { type: 'IDLE' }>, AppContext> = {
+  target: AppState.SLIDESHOW,
+  action: showPhoto
+};
+
+// Any gesture during the slideshow hands control back on the assembled tree
+const wake = { target: AppState.TREE, action: clearFocus };
+
+export const createAppMachine = (): AppMachine =>
+  new StateMachine<AppState, AppEvent, AppContext>({
+    initial: AppState.TREE,
+    context: { focusedPhotoId: null, celebrationAt: null, lastSwipe: null, lightPattern: 'CHASE' },
+    states: {
+      [AppState.TREE]: {
+        on: {
+          OPEN_PALM: { target: AppState.EXPLODED },
+          PINCH: cycleLights,
+          CELEBRATE: celebrate,
+          SWIPE: swipe,
+          IDLE: startSlideshow
+        }
+      },
+      [AppState.EXPLODED]: {
+        on: {
+          FIST: { target: AppState.TREE },
+          PINCH: {
+            target: AppState.FOCUS,
+            // Only focus when the hand cursor is actually over a photo
+            guard: (_, event) => event.photoId !== null,
+            action: (context, event) => ({ ...context, focusedPhotoId: event.photoId })
+          },
+          CELEBRATE: celebrate,
+          SWIPE: swipe,
+          IDLE: startSlideshow
+        }
+      },
+      [AppState.FOCUS]: {
+        on: {
+          FIST: { target: AppState.TREE, action: clearFocus },
+          OPEN_PALM: { target: AppState.EXPLODED, action: clearFocus },
+          CELEBRATE: celebrate,
+          IDLE: startSlideshow
+        }
+      },
+      [AppState.SLIDESHOW]: {
+        on: {
+          NEXT_SLIDE: { action: showPhoto },
+          FIST: wake,
+          OPEN_PALM: wake,
+          PINCH: wake,
+          SWIPE: wake,
+          // Both palms still get their burst on the way out
+          CELEBRATE: { target: AppState.TREE, action: (context, event) => clearFocus(markCelebration(context, event)) },
+          WAKE: wake
+        }
+      }
+    }
+  });
+
+// Maps a debounced gesture start onto the machine's event vocabulary
+export const gestureToAppEvent = (event: GestureEvent, hoveredPhotoId: number | null): AppEvent => {
+  switch (event.gesture) {
+    case 'FIST':
+      return { type: 'FIST' };
+    case 'OPEN_PALM':
+      return { type: 'OPEN_PALM' };
+    case 'PINCH':
+      return { type: 'PINCH', photoId: hoveredPhotoId };
+    case 'BOTH_PALMS':
+      return { type: 'CELEBRATE', timestamp: event.timestamp };
+    case 'SWIPE':
+      return { type: 'SWIPE', velocity: event.velocity ?? 0, timestamp: event.timestamp };
+  }
+};
+
+// A pinch on the assembled tree held this long takes a picture instead of cycling the lights
+export const PINCH_HOLD_MS = 800;
+
+// Gesture events on their way to the machine. On the assembled tree a pinch isn't
+// known to be short until it ends: released in time it cycles the lights, held it
+// starts the picture countdown instead. The App and the headless replay both go
+// through this, so a recording plays back the way it played live.
+export class GestureResolver {
+  private pinchStartedAt: number | null = null;
+
+  get holdPending() {
+    return this.pinchStartedAt !== null;
+  }
+
+  // The machine event for a gesture event, 'PINCH_HOLD' for a finished hold, or
+  // null when there's nothing to send (yet)
+  resolve(event: GestureEvent, state: AppState, hoveredPhotoId: number | null): AppEvent | 'PINCH_HOLD' | null {
+    if (event.gesture === 'PINCH' && (state === AppState.TREE || this.pinchStartedAt !== null)) {
+      if (event.type === 'start') {
+        this.pinchStartedAt = event.timestamp;
+        return null;
+      }
+      if (this.pinchStartedAt === null) return null;
+      const held = event.timestamp - this.pinchStartedAt >= PINCH_HOLD_MS;
+      this.pinchStartedAt = null;
+      if (held) return 'PINCH_HOLD';
+      return state === AppState.TREE ? gestureToAppEvent({ ...event, type: 'start' }, hoveredPhotoId) : null;
+    }
+    return event.type === 'start' ? gestureToAppEvent(event, hoveredPhotoId) : null;
+  }
+
+  // True once, when a pinch still held at `now` has lasted PINCH_HOLD_MS
+  poll(now: number): boolean {
+    if (this.pinchStartedAt === null || now - this.pinchStartedAt < PINCH_HOLD_MS) return false;
+    this.pinchStartedAt = null;
+    return true;
+  }
+}
@@ -0,0 +1,9 @@
+// The build serves the MediaPipe runtimes and models from <base>mediapipe/ (see
+// plugins/mediapipeAssets.ts). Set VITE_MEDIAPIPE_BASE to load them from somewhere
+// else instead, e.g. a file server on the local network at a kiosk.
+const configured = import.meta.env.VITE_MEDIAPIPE_BASE || `${import.meta.env.BASE_URL}mediapipe/`;
+
+// Absolute, since the hand tracking worker resolves relative URLs against its own script
+export const MEDIAPIPE_BASE = new URL(configured.endsWith('/') ? configured : `${configured}/`, self.location.href).href;
+
+export const mediapipeAsset = (file: string) => new URL(file, MEDIAPIPE_BASE).href;
@@ -0,0 +1,307 @@
+import { AppState, AudioSettings } from '../types';
+
+// Procedural holiday soundtrack: a slow pad, an occasional sleigh-bell jingle and
+// effects for the App's state changes, all synthesized with Web Audio (no files).
+// Browsers only allow audio to start from a user gesture, so start() must be called
+// from a click handler; everything before that is a no-op.
+
+export const DEFAULT_AUDIO: AudioSettings = { muted: false, volume: 0.6 };
+
+const midiToHz = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+// Cmaj7, Am7, Fmaj7, G6 as MIDI notes, gliding from one to the next
+const PAD_CHORDS = [[48, 55, 64, 71], [45, 52, 60, 67], [41, 48, 57, 64], [43, 50, 59, 64]];
+const CHORD_SECONDS = 8;
+const CHORD_GLIDE = 1.2; // s, time constant of the slide between chords
+const PAD_LEVEL = 0.12;
+// Each chord note is a sawtooth and a triangle pulled slightly apart
+const PAD_DETUNE = 7; // cents
+
+// The hand steers the pad: higher opens the filter, sideways pans and bends it
+const FILTER_RANGE = { min: 350, max: 2800 }; // Hz
+const HAND_DETUNE = 25; // cents at the screen edges
+const HAND_SMOOTHING = 0.15; // s
+
+// "Jingle Bells" opening as [MIDI note, beats]
+const JINGLE_MELODY: [number, number][] = [
+  [76, 1], [76, 1], [76, 2], [76, 1], [76, 1], [76, 2], [76, 1], [79, 1], [72, 1.5], [74, 0.5], [76, 4]
+];
+const JINGLE_BEAT = 0.22; // s
+const JINGLE_INTERVAL = 75_000; // ms between jingles while the tree is assembled
+
+const CHIME_NOTES = [84, 88, 91, 96];
+const SHIMMER_NOTES = [84, 86, 88, 91, 93, 96, 98, 100];
+const REVERB_SECONDS = 2.5;
+const FADE_IN_SECONDS = 2;
+
+interface PadVoice {
+  oscillator: OscillatorNode;
+  detune: number; // Its own offset, before the hand's bend
+}
+
+interface AudioGraph {
+  context: AudioContext;
+  master: GainNode;
+  fx: GainNode; // Effects and the jingle
+  padFilter: BiquadFilterNode;
+  padPanner: StereoPannerNode;
+  voices: PadVoice[];
+  noise: AudioBuffer;
+}
+
+// Decaying stereo noise, a passable small hall
+const createImpulse = (context: AudioContext) => {
+  const length = Math.round(context.sampleRate * REVERB_SECONDS);
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3;
+  }
+  return impulse;
+};
+
+const createNoise = (context: AudioContext) => {
+  const noise = context.createBuffer(1, context.sampleRate * 2, context.sampleRate);
+  const data = noise.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return noise;
+};
+
+export class HolidayAudio {
+  private graph: AudioGraph | null = null;
+  private settings: AudioSettings = DEFAULT_AUDIO;
+  private state: AppState = AppState.TREE;
+  private chord = 0;
+  private timers: number[] = [];
+  private hand = { x: 0.5, y: 0.5 };
+
+  // Call from a user gesture. Returns false when the browser has no Web Audio.
+  start() {
+    if (this.graph) {
+      if (!this.settings.muted) this.graph.context.resume();
+      return true;
+    }
+    if (typeof AudioContext === 'undefined') return false;
+
+    const context = new AudioContext();
+    const compressor = context.createDynamicsCompressor();
+    compressor.connect(context.destination);
+    const master = context.createGain();
+    master.gain.setValueAtTime(0, context.currentTime);
+    master.gain.linearRampToValueAtTime(this.level(), context.currentTime + FADE_IN_SECONDS);
+    master.connect(compressor);
+
+    const reverb = context.createConvolver();
+    reverb.buffer = createImpulse(context);
+    const reverbSend = context.createGain();
+    reverbSend.gain.value = 0.5;
+    reverbSend.connect(reverb);
+    reverb.connect(master);
+
+    const fx = context.createGain();
+    fx.connect(master);
+    fx.connect(reverbSend);
+
+    const padGain = context.createGain();
+    padGain.gain.value = PAD_LEVEL;
+    padGain.connect(master);
+    padGain.connect(reverbSend);
+    const padPanner = context.createStereoPanner();
+    padPanner.connect(padGain);
+    const padFilter = context.createBiquadFilter();
+    padFilter.type = 'lowpass';
+    padFilter.frequency.value = FILTER_RANGE.min;
+    padFilter.Q.value = 0.7;
+    padFilter.connect(padPanner);
+
+    // A slow swell in the pad's level so it breathes
+    const breath = context.createOscillator();
+    breath.frequency.value = 0.08;
+    const breathDepth = context.createGain();
+    breathDepth.gain.value = PAD_LEVEL * 0.3;
+    breath.connect(breathDepth).connect(padGain.gain);
+    breath.start();
+
+    const voices: PadVoice[] = PAD_CHORDS[0].flatMap(note =>
+      (['sawtooth', 'triangle'] as const).map((type, i) => {
+        const oscillator = context.createOscillator();
+        const detune = i === 0 ? -PAD_DETUNE : PAD_DETUNE;
+        oscillator.type = type;
+        oscillator.frequency.value = midiToHz(note);
+        oscillator.detune.value = detune;
+        const gain = context.createGain();
+        gain.gain.value = type === 'sawtooth' ? 0.12 : 0.25;
+        oscillator.connect(gain).connect(padFilter);
+        oscillator.start();
+        return { oscillator, detune };
+      })
+    );
+
+    this.graph = { context, master, fx, padFilter, padPanner, voices, noise: createNoise(context) };
+    this.applyHand();
+    this.timers.push(
+      window.setInterval(() => this.nextChord(), CHORD_SECONDS * 1000),
+      window.setInterval(() => {
+        if (this.state === AppState.TREE) this.jingle();
+      }, JINGLE_INTERVAL)
+    );
+    context.resume();
+    // A welcome once the pad has faded in
+    this.timers.push(window.setTimeout(() => this.jingle(), FADE_IN_SECONDS * 1000 + 500));
+    return true;
+  }
+
+  configure(settings: AudioSettings) {
+    this.settings = settings;
+    const graph = this.graph;
+    if (!graph) return;
+    graph.master.gain.setTargetAtTime(this.level(), graph.context.currentTime, 0.05);
+    // A muted context is suspended too, so it stops costing CPU
+    if (settings.muted) {
+      window.setTimeout(() => {
+        if (this.settings.muted) graph.context.suspend();
+      }, 200);
+    } else {
+      graph.context.resume();
+    }
+  }
+
+  // handPosition is normalized 0-1 with y pointing down; an untracked hand eases back to neutral
+  setHand(x: number, y: number, tracked: boolean) {
+    const nextX = tracked ? x : 0.5;
+    const nextY = tracked ? y : 0.5;
+    // Skip the jitter of a resting hand rather than queue an automation event per frame
+    if (Math.abs(nextX - this.hand.x) < 0.005 && Math.abs(nextY - this.hand.y) < 0.005) return;
+    this.hand = { x: nextX, y: nextY };
+    this.applyHand();
+  }
+
+  private applyHand() {
+    const graph = this.graph;
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    const height = Math.min(1, Math.max(0, 1 - this.hand.y));
+    const side = Math.min(1, Math.max(-1, this.hand.x * 2 - 1));
+    graph.padFilter.frequency.setTargetAtTime(FILTER_RANGE.min * (FILTER_RANGE.max / FILTER_RANGE.min) ** height, now, HAND_SMOOTHING);
+    graph.padPanner.pan.setTargetAtTime(side * 0.6, now, HAND_SMOOTHING);
+    graph.voices.forEach(voice => voice.oscillator.detune.setTargetAtTime(voice.detune + side * HAND_DETUNE, now, HAND_SMOOTHING));
+  }
+
+  // Called for every state change of the App machine
+  transition(from: AppState, to: AppState) {
+    this.state = to;
+    if (to === AppState.EXPLODED) this.whoosh(from === AppState.TREE ? 1 : 0.5);
+    else if (to === AppState.FOCUS || to === AppState.SLIDESHOW) this.chime();
+    else if (to === AppState.TREE) this.shimmer();
+  }
+
+  jingle() {
+    const graph = this.playable();
+    if (!graph) return;
+    let time = graph.context.currentTime + 0.05;
+    JINGLE_MELODY.forEach(([note, beats]) => {
+      this.bell(graph, midiToHz(note), time, 0.12, 0.9);
+      // Sleigh bells on every half beat under the tune
+      for (let half = 0; half < beats * 2; half++) this.sleighBell(graph, time + half * JINGLE_BEAT / 2);
+      time += beats * JINGLE_BEAT;
+    });
+  }
+
+  close() {
+    this.timers.forEach(timer => window.clearInterval(timer));
+    this.timers = [];
+    this.graph?.context.close();
+    this.graph = null;
+  }
+
+  private level() {
+    return this.settings.muted ? 0 : this.settings.volume;
+  }
+
+  // Effects are skipped while muted, so they don't pile up in a suspended context
+  private playable() {
+    return this.graph && !this.settings.muted ? this.graph : null;
+  }
+
+  private nextChord() {
+    const graph = this.graph;
+    if (!graph) return;
+    this.chord = (this.chord + 1) % PAD_CHORDS.length;
+    const now = graph.context.currentTime;
+    graph.voices.forEach((voice, i) => {
+      voice.oscillator.frequency.setTargetAtTime(midiToHz(PAD_CHORDS[this.chord][Math.floor(i / 2)]), now, CHORD_GLIDE);
+    });
+  }
+
+  // FM bell: a sine whose modulator at an inharmonic ratio dies away faster than the tone
+  private bell(graph: AudioGraph, frequency: number, start: number, level: number, decay: number) {
+    const { context, fx } = graph;
+    const carrier = context.createOscillator();
+    carrier.frequency.value = frequency;
+    const modulator = context.createOscillator();
+    modulator.frequency.value = frequency * 3.5;
+    const depth = context.createGain();
+    depth.gain.setValueAtTime(frequency * 2, start);
+    depth.gain.exponentialRampToValueAtTime(1, start + decay * 0.5);
+    modulator.connect(depth).connect(carrier.frequency);
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(level, start + 0.005);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + decay);
+    carrier.connect(envelope).connect(fx);
+
+    carrier.start(start);
+    modulator.start(start);
+    carrier.stop(start + decay);
+    modulator.stop(start + decay);
+  }
+
+  // Filtered noise whose filter sweeps from `from` to `to` Hz over `duration`
+  private noise(graph: AudioGraph, start: number, duration: number, filter: BiquadFilterType, from: number, to: number, level: number, attack: number) {
+    const { context, fx, noise } = graph;
+    const source = context.createBufferSource();
+    source.buffer = noise;
+    source.loop = true;
+    const shaper = context.createBiquadFilter();
+    shaper.type = filter;
+    shaper.Q.value = filter === 'bandpass' ? 1.5 : 0.7;
+    shaper.frequency.setValueAtTime(from, start);
+    shaper.frequency.exponentialRampToValueAtTime(to, start + duration);
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(level, start + attack);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    source.connect(shaper).connect(envelope).connect(fx);
+    source.start(start);
+    source.stop(start + duration);
+  }
+
+  private sleighBell(graph: AudioGraph, start: number) {
+    this.noise(graph, start, 0.08, 'highpass', 7000, 9000, 0.05, 0.003);
+  }
+
+  private whoosh(strength: number) {
+    const graph = this.playable();
+    if (!graph) return;
+    this.noise(graph, graph.context.currentTime, 0.9, 'bandpass', 300, 4000, 0.5 * strength, 0.25);
+  }
+
+  private chime() {
+    const graph = this.playable();
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    CHIME_NOTES.forEach((note, i) => this.bell(graph, midiToHz(note), now + i * 0.09, 0.1, 1.6));
+  }
+
+  private shimmer() {
+    const graph = this.playable();
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    this.noise(graph, now, 1.2, 'highpass', 5000, 9000, 0.06, 0.6);
+    for (let i = 0; i < 8; i++) {
+      const note = SHIMMER_NOTES[Math.floor(Math.random() * SHIMMER_NOTES.length)];
+      this.bell(graph, midiToHz(note), now + 0.2 + Math.random() * 0.9, 0.05, 0.8);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+// Opening the webcam, with getUserMedia's failures sorted into the cases the UI
+// can explain to the user.
+
+export type CameraErrorKind = 'DENIED' | 'NOT_FOUND' | 'IN_USE' | 'UNSUPPORTED' | 'DISCONNECTED' | 'UNKNOWN';
+
+export const CAMERA_ERROR_MESSAGES: Record<CameraErrorKind, string> = {
+  DENIED: 'Camera access was blocked. Allow it in your browser\'s site settings and try again.',
+  NOT_FOUND: 'No camera was found. Connect one and try again.',
+  IN_USE: 'The camera is being used by another app. Close it and try again.',
+  UNSUPPORTED: 'This browser can\'t access cameras. Try a recent Chrome, Edge, Firefox or Safari.',
+  DISCONNECTED: 'The camera was disconnected.',
+  UNKNOWN: 'The camera could not be started.'
+};
+
+export class CameraError extends Error {
+  constructor(public kind: CameraErrorKind, cause?: unknown) {
+    super(CAMERA_ERROR_MESSAGES[kind], { cause });
+    this.name = 'CameraError';
+  }
+}
+
+export type CameraResolution = '360p' | '480p' | '720p' | '1080p';
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  '360p': { width: 640, height: 360 },
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 }
+};
+
+// Hand landmarks don't get more accurate past this, they just cost more to copy
+export const DEFAULT_CAMERA_RESOLUTION: CameraResolution = '480p';
+
+export interface CameraOptions {
+  deviceId: string | null; // null for the browser's default camera
+  resolution: CameraResolution;
+}
+
+// Browsers disagree on some of the names, so several map to each kind
+const classify = (e: unknown): CameraErrorKind => {
+  const name = e instanceof DOMException || e instanceof Error ? e.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'DENIED';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return 'NOT_FOUND';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'IN_USE';
+    default:
+      return 'UNKNOWN';
+  }
+};
+
+export const openCamera = async ({ deviceId, resolution }: CameraOptions): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new CameraError('UNSUPPORTED');
+  const { width, height } = CAMERA_RESOLUTIONS[resolution];
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        width: { ideal: width },
+        height: { ideal: height }
+      }
+    });
+  } catch (e) {
+    throw new CameraError(classify(e), e);
+  }
+};
+
+// Labels are empty until camera permission has been granted
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
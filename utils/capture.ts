@@ -0,0 +1,208 @@
+// Saves the scene as a PNG or a WebM clip. The WebGL canvas only holds a readable
+// picture right after a frame is drawn, so the scene calls frameRendered() at that
+// point every frame and captures run as tasks inside it. A snapshot's pixel ratio
+// goes through the Canvas's dpr prop (see getDpr), since R3F puts back whatever
+// the prop says every time the scene re-renders.
+
+export type SnapshotResolution = '1080p' | '1440p' | '4K';
+
+// Output height; the width follows the window's aspect ratio
+export const SNAPSHOT_HEIGHTS: Record<SnapshotResolution, number> = {
+  '1080p': 1080,
+  '1440p': 1440,
+  '4K': 2160
+};
+
+export interface CaptureOptions {
+  greeting: string | null; // Drawn along the bottom of the picture
+}
+
+// What the scene exposes to capture from
+export interface CaptureRenderer {
+  canvas: HTMLCanvasElement;
+  size: () => { width: number; height: number }; // CSS pixels
+  maxSize: number; // Largest texture the GPU can render to
+}
+
+export interface ClipRecording {
+  // Finishes the clip and resolves with the encoded video
+  stop: () => Promise<Blob>;
+}
+
+// Frames to wait once the canvas has been resized, so the resize has reached the post-processing targets
+const SETTLE_FRAMES = 3;
+// Give up on a snapshot whose canvas still hasn't been resized after this many frames
+const RESIZE_TIMEOUT_FRAMES = 30;
+const CLIP_FPS = 30;
+const CLIP_BITRATE = 8_000_000;
+// Longest clip edge; bigger frames mostly cost encoder time
+const CLIP_MAX_SIZE = 1920;
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const pickVideoType = (): string | null =>
+  typeof MediaRecorder === 'undefined' ? null : VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+// Returns false to be called again on the next frame
+type FrameTask = (canvas: HTMLCanvasElement) => boolean;
+
+const GREETING_FONT = 'Cinzel';
+
+export const drawGreeting = (context: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  const size = Math.round(height * 0.07);
+  const y = height * 0.9;
+  const gradient = context.createLinearGradient(0, y - size, 0, y);
+  gradient.addColorStop(0, '#fef9c3');
+  gradient.addColorStop(1, '#eab308');
+
+  context.save();
+  context.font = `700 ${size}px ${GREETING_FONT}, serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'alphabetic';
+  context.shadowColor = 'rgba(255, 215, 0, 0.6)';
+  context.shadowBlur = size * 0.4;
+  context.fillStyle = gradient;
+  context.fillText(text, width / 2, y, width * 0.9);
+  context.restore();
+};
+
+// The greeting font is only fetched once something on the page uses it
+const loadGreetingFont = () => document.fonts?.load(`700 48px ${GREETING_FONT}`).catch(() => undefined);
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export class SceneCapture {
+  private renderer: CaptureRenderer | null = null;
+  private tasks = new Set<FrameTask>();
+  private dpr: number | null = null;
+  private listeners = new Set<() => void>();
+
+  // Returns the matching detach
+  attach(renderer: CaptureRenderer) {
+    this.renderer = renderer;
+    return () => {
+      if (this.renderer === renderer) this.renderer = null;
+      this.tasks.clear();
+      this.setDpr(null);
+    };
+  }
+
+  // The pixel ratio the scene must render at while a snapshot is taken, null otherwise
+  getDpr = (): number | null => this.dpr;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Called by the scene right after each frame is drawn
+  frameRendered() {
+    const canvas = this.renderer?.canvas;
+    if (!canvas) return;
+    this.tasks.forEach(task => {
+      if (task(canvas)) this.tasks.delete(task);
+    });
+  }
+
+  // Renders a few frames at a pixel ratio that makes the canvas `height` pixels tall,
+  // independent of the screen's own ratio, then puts it back
+  async snapshot(height: number, options: CaptureOptions): Promise<Blob> {
+    const renderer = this.renderer;
+    if (!renderer) throw new Error('The scene is not running');
+    if (options.greeting) await loadGreetingFont();
+
+    const { width: cssWidth, height: cssHeight } = renderer.size();
+    const dpr = Math.min(height / cssHeight, renderer.maxSize / Math.max(cssWidth, cssHeight));
+    // Smaller than asked for only when the GPU can't render that large
+    const outputWidth = Math.round(cssWidth * dpr);
+    const outputHeight = Math.round(cssHeight * dpr);
+    this.setDpr(dpr);
+
+    return new Promise((resolve, reject) => {
+      let waited = 0;
+      let settled = 0;
+      this.tasks.add(canvas => {
+        // The drawing buffer rounds down, so allow it a pixel short
+        if (Math.abs(canvas.width - outputWidth) > 1 || Math.abs(canvas.height - outputHeight) > 1) {
+          if (++waited < RESIZE_TIMEOUT_FRAMES) return false;
+          this.setDpr(null);
+          reject(new Error(`The scene did not render at ${outputWidth}×${outputHeight}, only ${canvas.width}×${canvas.height}`));
+          return true;
+        }
+        if (++settled < SETTLE_FRAMES) return false;
+        const output = document.createElement('canvas');
+        output.width = outputWidth;
+        output.height = outputHeight;
+        const context = output.getContext('2d');
+        this.setDpr(null);
+        if (!context) {
+          reject(new Error('Could not create a 2D canvas'));
+          return true;
+        }
+        context.drawImage(canvas, 0, 0, outputWidth, outputHeight);
+        if (options.greeting) drawGreeting(context, options.greeting, output.width, output.height);
+        output.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the snapshot'))), 'image/png');
+        return true;
+      });
+    });
+  }
+
+  // Copies every rendered frame, with the greeting on top, into a canvas that MediaRecorder encodes
+  async startRecording(options: CaptureOptions): Promise<ClipRecording> {
+    const renderer = this.renderer;
+    if (!renderer) throw new Error('The scene is not running');
+    const mimeType = pickVideoType();
+    if (!mimeType) throw new Error('Video recording is not supported in this browser');
+    if (options.greeting) await loadGreetingFont();
+
+    const { canvas } = renderer;
+    const scale = Math.min(1, CLIP_MAX_SIZE / Math.max(canvas.width, canvas.height));
+    const output = document.createElement('canvas');
+    // Encoders want even dimensions
+    output.width = Math.round(canvas.width * scale / 2) * 2;
+    output.height = Math.round(canvas.height * scale / 2) * 2;
+    const context = output.getContext('2d');
+    if (!context) throw new Error('Could not create a 2D canvas');
+
+    const stream = output.captureStream(CLIP_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: CLIP_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const task: FrameTask = source => {
+      context.drawImage(source, 0, 0, output.width, output.height);
+      if (options.greeting) drawGreeting(context, options.greeting, output.width, output.height);
+      return false;
+    };
+    this.tasks.add(task);
+    recorder.start();
+
+    return {
+      stop: () => new Promise(resolve => {
+        this.tasks.delete(task);
+        recorder.onstop = () => {
+          stream.getTracks().forEach(track => track.stop());
+          resolve(new Blob(chunks, { type: mimeType }));
+        };
+        recorder.stop();
+      })
+    };
+  }
+
+  private setDpr(dpr: number | null) {
+    if (dpr === this.dpr) return;
+    this.dpr = dpr;
+    this.listeners.forEach(listener => listener());
+  }
+}
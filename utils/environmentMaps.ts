@@ -0,0 +1,24 @@
+import type { EnvironmentPreset } from './themes';
+
+// drei's environment presets, loaded by URL so the service worker can precache the
+// same list and image-based lighting keeps working offline. Pinned to the
+// drei-assets commit drei's own presets point at.
+
+const ENVIRONMENT_MAP_ROOT = 'https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/';
+
+const ENVIRONMENT_MAP_FILES: Record<EnvironmentPreset, string> = {
+  apartment: 'lebombo_1k.hdr',
+  city: 'potsdamer_platz_1k.hdr',
+  dawn: 'kiara_1_dawn_1k.hdr',
+  forest: 'forest_slope_1k.hdr',
+  lobby: 'st_fagans_interior_1k.hdr',
+  night: 'dikhololo_night_1k.hdr',
+  park: 'rooitou_park_1k.hdr',
+  studio: 'studio_small_03_1k.hdr',
+  sunset: 'venice_sunset_1k.hdr',
+  warehouse: 'empty_warehouse_01_1k.hdr'
+};
+
+export const environmentMapUrl = (preset: EnvironmentPreset) => ENVIRONMENT_MAP_ROOT + ENVIRONMENT_MAP_FILES[preset];
+
+export const ENVIRONMENT_MAP_URLS = (Object.keys(ENVIRONMENT_MAP_FILES) as EnvironmentPreset[]).map(environmentMapUrl);
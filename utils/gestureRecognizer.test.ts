@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { GestureEvent, HandFrame, Landmark } from '../types';
+import { DEFAULT_RECOGNIZER_OPTIONS, GestureRecognizer, IDLE_GESTURE } from './gestureRecognizer';
+
+const FRAME_MS = 1000 / 30;
+const { pinch } = DEFAULT_RECOGNIZER_OPTIONS;
+
+// A right hand with its fingertips `spread` above the wrist and the thumb tip
+// `pinchDistance` beside the index tip; a spread of 0.32 is neither fist nor open palm
+const hand = (pinchDistance: number, spread = 0.32): HandFrame => {
+  const wrist = { x: 0.5, y: 0.8, z: 0 };
+  const landmarks: Landmark[] = Array.from({ length: 21 }, () => ({ ...wrist }));
+  landmarks[9] = { x: 0.5, y: 0.6, z: 0 };
+  [8, 12, 16, 20].forEach(tip => {
+    landmarks[tip] = { x: 0.5, y: wrist.y - spread, z: 0 };
+  });
+  landmarks[4] = { x: 0.5 + pinchDistance, y: wrist.y - spread, z: 0 };
+  return { landmarks, handedness: 'Right' };
+};
+
+// Feeds one frame per entry, FRAME_MS apart from t = 0, and collects every event
+const run = (recognizer: GestureRecognizer, frames: HandFrame[][]) => {
+  const events: GestureEvent[] = [];
+  let gesture = IDLE_GESTURE;
+  frames.forEach((frame, i) => {
+    const output = recognizer.update(frame, i * FRAME_MS);
+    events.push(...output.events);
+    gesture = output.gesture;
+  });
+  return { events, gesture };
+};
+
+const repeat = (frame: HandFrame[], ms: number) => Array.from({ length: Math.ceil(ms / FRAME_MS) }, () => frame);
+
+const OPEN = [hand(0.1)];
+const PINCHED = [hand(0.03)];
+// Inside the hysteresis band: too far apart to start a pinch, too close to end one
+const BETWEEN = [hand((pinch.enter + pinch.exit) / 2)];
+
+describe('GestureRecognizer', () => {
+  it('ignores a single-frame flicker', () => {
+    const recognizer = new GestureRecognizer();
+    const { events, gesture } = run(recognizer, [...repeat(OPEN, 200), PINCHED, ...repeat(OPEN, 200)]);
+
+    expect(events).toEqual([]);
+    expect(gesture.isPinching).toBe(false);
+  });
+
+  it('starts a gesture once it has been held, and ends it once it has been let go', () => {
+    const recognizer = new GestureRecognizer();
+    const { events } = run(recognizer, [...repeat(OPEN, 100), ...repeat(PINCHED, 300), ...repeat(OPEN, 300)]);
+
+    expect(events.map(e => [e.type, e.gesture])).toEqual([['start', 'PINCH'], ['end', 'PINCH']]);
+    const [start, end] = events;
+    expect(start.timestamp).toBeGreaterThanOrEqual(100 + DEFAULT_RECOGNIZER_OPTIONS.holdMs);
+    expect(end.timestamp - start.timestamp).toBeGreaterThanOrEqual(300);
+  });
+
+  it('needs a tighter pinch to start than to keep pinching', () => {
+    const notStarted = run(new GestureRecognizer(), [...repeat(OPEN, 100), ...repeat(BETWEEN, 500)]);
+    expect(notStarted.events).toEqual([]);
+    expect(notStarted.gesture.isPinching).toBe(false);
+
+    const kept = run(new GestureRecognizer(), [...repeat(PINCHED, 300), ...repeat(BETWEEN, 500)]);
+    expect(kept.events.map(e => e.type)).toEqual(['start']);
+    expect(kept.gesture.isPinching).toBe(true);
+  });
+
+  it('releases every gesture after the hand is lost', () => {
+    const recognizer = new GestureRecognizer();
+    const { events, gesture } = run(recognizer, [...repeat(PINCHED, 300), ...repeat([], 300)]);
+
+    expect(events.map(e => e.type)).toEqual(['start', 'end']);
+    expect(gesture.tracked).toBe(false);
+  });
+});
@@ -0,0 +1,243 @@
+import { GestureEvent, GestureKind, HandFrame, HandGesture, Landmark, TrackedHand, TwoHandState } from '../types';
+import { OneEuroFilter, OneEuroOptions, DEFAULT_ONE_EURO_OPTIONS } from './oneEuroFilter';
+
+// Turns raw per-frame MediaPipe landmarks into stable gestures.
+// Pure TypeScript with no camera dependency: feed it recorded landmark
+// sequences with timestamps and it produces the same output as live tracking.
+
+// Hysteresis band for one metric. A gesture turns on when the metric crosses
+// `enter` and only turns off again once it crosses back over `exit`.
+export interface Threshold {
+  enter: number;
+  exit: number;
+}
+
+export interface GestureRecognizerOptions {
+  holdMs: number; // A gesture must be seen this long before it starts
+  releaseMs: number; // ...and gone this long before it ends
+  fist: Threshold; // Average fingertip-to-wrist distance, active below
+  palm: Threshold; // Average fingertip-to-wrist distance, active above
+  pinch: Threshold; // Thumb-to-index tip distance, active below
+  swipe: {
+    minVelocity: number; // Screen widths per second
+    cooldownMs: number; // Ignore the hand swinging back after a swipe
+  };
+  positionFilter: OneEuroOptions;
+}
+
+export const DEFAULT_RECOGNIZER_OPTIONS: GestureRecognizerOptions = {
+  holdMs: 120,
+  releaseMs: 150,
+  fist: { enter: 0.22, exit: 0.28 },
+  palm: { enter: 0.42, exit: 0.36 },
+  pinch: { enter: 0.045, exit: 0.07 },
+  swipe: { minVelocity: 1.5, cooldownMs: 500 },
+  positionFilter: DEFAULT_ONE_EURO_OPTIONS
+};
+
+export const IDLE_GESTURE: HandGesture = {
+  isFist: false,
+  isOpenPalm: false,
+  isPinching: false,
+  tracked: false,
+  handPosition: { x: 0.5, y: 0.5 },
+  rotation: 0,
+  hands: [],
+  twoHand: null,
+  timestamp: 0
+};
+
+const FINGER_TIPS = [8, 12, 16, 20];
+
+// Raw per-frame measurements of a single hand
+export interface HandMetrics {
+  spread: number; // Average fingertip-to-wrist distance
+  pinchDistance: number; // Thumb tip to index tip
+  position: { x: number; y: number }; // Middle finger knuckle, mirrored
+  roll: number; // Radians, 0 with fingers up, positive tilting clockwise
+}
+
+export const measureHand = (landmarks: Landmark[]): HandMetrics => {
+  const wrist = landmarks[0];
+  let spread = 0;
+  FINGER_TIPS.forEach(idx => {
+    spread += Math.hypot(landmarks[idx].x - wrist.x, landmarks[idx].y - wrist.y);
+  });
+  spread /= FINGER_TIPS.length;
+
+  const thumbTip = landmarks[4];
+  const indexTip = landmarks[8];
+  const pinchDistance = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
+
+  // Mirror x so moving the hand right moves the cursor right
+  const position = { x: 1 - landmarks[9].x, y: landmarks[9].y };
+
+  // Direction from the wrist to the middle finger knuckle, in the mirrored view
+  const roll = Math.atan2(wrist.x - landmarks[9].x, wrist.y - landmarks[9].y);
+
+  return { spread, pinchDistance, position, roll };
+};
+
+// Debounced on/off state for one gesture
+class GestureTrack {
+  private raw = false; // After hysteresis, before debouncing
+  private pendingSince: number | null = null;
+  active = false;
+
+  constructor(readonly kind: GestureKind) {}
+
+  // Returns the event produced by this frame, if any
+  update(enter: boolean, exit: boolean, timestamp: number, holdMs: number, releaseMs: number): GestureEvent | null {
+    this.raw = this.raw ? !exit : enter;
+
+    if (this.raw === this.active) {
+      this.pendingSince = null;
+      return null;
+    }
+
+    if (this.pendingSince === null) this.pendingSince = timestamp;
+    if (timestamp - this.pendingSince < (this.raw ? holdMs : releaseMs)) return null;
+
+    this.active = this.raw;
+    this.pendingSince = null;
+    return { type: this.active ? 'start' : 'end', gesture: this.kind, timestamp };
+  }
+}
+
+export interface RecognizerOutput {
+  gesture: HandGesture;
+  events: GestureEvent[];
+}
+
+export class GestureRecognizer {
+  private options: GestureRecognizerOptions;
+  private fist = new GestureTrack('FIST');
+  private palm = new GestureTrack('OPEN_PALM');
+  private pinch = new GestureTrack('PINCH');
+  private bothPalms = new GestureTrack('BOTH_PALMS');
+  // One x/y filter pair per tracked hand
+  private filters = new Map<string, [OneEuroFilter, OneEuroFilter]>();
+  private rollFilter: OneEuroFilter;
+  private lastPosition: { x: number; y: number; timestamp: number } | null = null;
+  private lastSwipeAt = -Infinity;
+  // Kept while the hand is lost, so the cursor and anything following it don't jump
+  private lastHandPosition = { ...IDLE_GESTURE.handPosition };
+
+  constructor(options: Partial<GestureRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_RECOGNIZER_OPTIONS, ...options };
+    this.rollFilter = new OneEuroFilter(this.options.positionFilter);
+  }
+
+  // Feed one frame of detected hands (empty when none); timestamp in ms.
+  // The first hand drives the single-hand gestures and the cursor.
+  update(frame: HandFrame[], timestamp: number): RecognizerOutput {
+    const { holdMs, releaseMs, fist, palm, pinch } = this.options;
+    const events: GestureEvent[] = [];
+    const track = (t: GestureTrack, enter: boolean, exit: boolean) => {
+      const event = t.update(enter, exit, timestamp, holdMs, releaseMs);
+      if (event) events.push(event);
+    };
+
+    // Filters are keyed by handedness, falling back to the index if both hands report the same side
+    const keys = frame.map(({ handedness }, i) =>
+      frame.findIndex(h => h.handedness === handedness) === i ? handedness : `${handedness}-${i}`
+    );
+    const hands: TrackedHand[] = frame.map(({ landmarks, handedness }, i) => {
+      const metrics = measureHand(landmarks);
+      return {
+        handedness,
+        isFist: metrics.spread < fist.enter,
+        isOpenPalm: metrics.spread > palm.enter,
+        isPinching: metrics.pinchDistance < pinch.enter,
+        position: this.smooth(keys[i], metrics.position, timestamp)
+      };
+    });
+    // Drop filters for hands that left the frame so they don't resume from stale values
+    this.filters.forEach((_, key) => {
+      if (!keys.includes(key)) this.filters.delete(key);
+    });
+
+    const primary = frame.length > 0 ? measureHand(frame[0].landmarks) : null;
+    if (primary) {
+      track(this.fist, primary.spread < fist.enter, primary.spread > fist.exit);
+      track(this.palm, primary.spread > palm.enter, primary.spread < palm.exit);
+      track(this.pinch, primary.pinchDistance < pinch.enter, primary.pinchDistance > pinch.exit);
+    } else {
+      // A lost hand releases everything, still subject to releaseMs
+      track(this.fist, false, true);
+      track(this.palm, false, true);
+      track(this.pinch, false, true);
+    }
+
+    if (hands.length > 0) this.lastHandPosition = hands[0].position;
+
+    const roll = primary ? this.rollFilter.filter(primary.roll, timestamp) : 0;
+    if (!primary) this.rollFilter.reset();
+
+    const swipe = this.detectSwipe(hands.length > 0 ? hands[0].position : null, timestamp);
+    if (swipe) events.push(swipe, { ...swipe, type: 'end' });
+
+    const secondary = frame.length > 1 ? measureHand(frame[1].landmarks) : null;
+    if (primary && secondary) {
+      track(
+        this.bothPalms,
+        primary.spread > palm.enter && secondary.spread > palm.enter,
+        primary.spread < palm.exit || secondary.spread < palm.exit
+      );
+    } else {
+      track(this.bothPalms, false, true);
+    }
+
+    return {
+      gesture: {
+        isFist: this.fist.active,
+        isOpenPalm: this.palm.active,
+        isPinching: this.pinch.active,
+        tracked: hands.length > 0,
+        handPosition: this.lastHandPosition,
+        rotation: roll,
+        hands,
+        twoHand: measureTwoHands(hands),
+        timestamp
+      },
+      events
+    };
+  }
+
+  // A fast, mostly horizontal flick of the cursor
+  private detectSwipe(position: { x: number; y: number } | null, timestamp: number): GestureEvent | null {
+    const last = this.lastPosition;
+    this.lastPosition = position ? { ...position, timestamp } : null;
+    if (!position || !last) return null;
+
+    const dt = (timestamp - last.timestamp) / 1000;
+    if (dt <= 0) return null;
+    const vx = (position.x - last.x) / dt;
+    const vy = (position.y - last.y) / dt;
+
+    const { minVelocity, cooldownMs } = this.options.swipe;
+    if (Math.abs(vx) < minVelocity || Math.abs(vx) < 2 * Math.abs(vy)) return null;
+    if (timestamp - this.lastSwipeAt < cooldownMs) return null;
+
+    this.lastSwipeAt = timestamp;
+    return { type: 'start', gesture: 'SWIPE', timestamp, velocity: vx };
+  }
+
+  private smooth(key: string, position: { x: number; y: number }, timestamp: number) {
+    let filters = this.filters.get(key);
+    if (!filters) {
+      filters = [new OneEuroFilter(this.options.positionFilter), new OneEuroFilter(this.options.positionFilter)];
+      this.filters.set(key, filters);
+    }
+    return { x: filters[0].filter(position.x, timestamp), y: filters[1].filter(position.y, timestamp) };
+  }
+}
+
+const measureTwoHands = (hands: TrackedHand[]): TwoHandState | null => {
+  if (hands.length < 2) return null;
+  // Order by screen position so the angle doesn't jump if handedness is misreported
+  const [left, right] = hands[0].position.x <= hands[1].position.x ? [hands[0], hands[1]] : [hands[1], hands[0]];
+  const dx = right.position.x - left.position.x;
+  const dy = right.position.y - left.position.y;
+  return { distance: Math.hypot(dx, dy), angle: Math.atan2(dy, dx) };
+};
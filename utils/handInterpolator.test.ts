@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { HandGesture } from '../types';
+import { IDLE_GESTURE } from './gestureRecognizer';
+import { HandInterpolator } from './handInterpolator';
+
+const LATENCY = 40;
+const INTERVAL = 50;
+
+const result = (x: number, timestamp: number): HandGesture => ({ ...IDLE_GESTURE, handPosition: { x, y: 0 }, timestamp });
+
+// Results captured every INTERVAL ms, each arriving LATENCY ms after capture, moving x by 1
+const feed = (interpolator: HandInterpolator, count: number) => {
+  for (let i = 0; i < count; i++) interpolator.push(result(i, i * INTERVAL), i * INTERVAL + LATENCY);
+  return (count - 1) * INTERVAL + LATENCY; // When the last one arrived
+};
+
+describe('HandInterpolator', () => {
+  it('starts each result from where the one before it left off', () => {
+    const interpolator = new HandInterpolator();
+    const arrived = feed(interpolator, 5);
+
+    expect(interpolator.sample(arrived, { x: 0, y: 0 }).x).toBeCloseTo(3);
+  });
+
+  it('glides across the whole interval before the next result arrives', () => {
+    const interpolator = new HandInterpolator();
+    const arrived = feed(interpolator, 5);
+
+    expect(interpolator.sample(arrived + INTERVAL / 2, { x: 0, y: 0 }).x).toBeCloseTo(3.5);
+    expect(interpolator.sample(arrived + INTERVAL - 1, { x: 0, y: 0 }).x).toBeCloseTo(3.98);
+  });
+
+  it('snaps to a result after a gap in tracking', () => {
+    const interpolator = new HandInterpolator();
+    const arrived = feed(interpolator, 5);
+    interpolator.push(result(10, arrived + 1000), arrived + 1000 + LATENCY);
+
+    expect(interpolator.sample(arrived + 1000 + LATENCY, { x: 0, y: 0 }).x).toBe(10);
+  });
+});
@@ -0,0 +1,54 @@
+import { HandGesture } from '../types';
+
+// Hand results arrive at the tracker's rate, well below the render rate, so reading
+// handPosition directly makes anything that follows the hand move in steps. This
+// plays the position back on a delayed clock, blending between the last two results
+// by their capture timestamps. A result only reaches the scene after inference, so
+// the delay is that latency plus one result interval: a result arrives just as
+// playback reaches the one before it, and playback reaches it as the next arrives.
+
+// Longer gaps mean the hand stopped being tracked; snap instead of gliding across
+const MAX_INTERVAL_MS = 200;
+// How quickly the delay follows changes in latency and interval (per result)
+const DELAY_SMOOTHING = 0.2;
+
+interface Sample {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export class HandInterpolator {
+  private previous: Sample | null = null;
+  private latest: Sample | null = null;
+  // From `now` back to the capture time being shown, ms
+  private delay: number | null = null;
+
+  // Safe to call every frame with the current time; only a newer result is
+  // recorded, and `now` is taken as when it arrived
+  push(gesture: HandGesture, now: number) {
+    if (this.latest && gesture.timestamp <= this.latest.timestamp) return;
+    const interval = this.latest ? gesture.timestamp - this.latest.timestamp : Infinity;
+    this.previous = this.latest;
+    this.latest = { ...gesture.handPosition, timestamp: gesture.timestamp };
+    if (interval > MAX_INTERVAL_MS) return;
+    const delay = now - gesture.timestamp + interval;
+    this.delay = this.delay === null ? delay : this.delay + (delay - this.delay) * DELAY_SMOOTHING;
+  }
+
+  // Writes the position to show at `now` (performance.now()) into target
+  sample<T extends { x: number; y: number }>(now: number, target: T): T {
+    const { previous, latest, delay } = this;
+    if (!latest) return target;
+    const interval = previous ? latest.timestamp - previous.timestamp : 0;
+    if (!previous || delay === null || interval <= 0 || interval > MAX_INTERVAL_MS) {
+      target.x = latest.x;
+      target.y = latest.y;
+      return target;
+    }
+    const t = Math.min(1, Math.max(0, (now - delay - previous.timestamp) / interval));
+    target.x = previous.x + (latest.x - previous.x) * t;
+    target.y = previous.y + (latest.y - previous.y) * t;
+    return target;
+  }
+}
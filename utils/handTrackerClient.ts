@@ -0,0 +1,90 @@
+import { HandFrame } from '../types';
+import { HAND_TRACKER_OPTIONS, HandTrackerOptions, HandTrackerRequest, HandTrackerResponse } from './handTrackingProtocol';
+
+export interface HandTrackerCallbacks {
+  onResult: (hands: HandFrame[], timestamp: number) => void;
+  // The worker can't run; the caller should fall back to main-thread tracking
+  onError: (message: string) => void;
+}
+
+// Main-thread side of the hand tracking worker. Frames offered while the worker is
+// still busy with the previous one are dropped, so results never queue up behind
+// a slow model and the latency stays at one inference.
+export class HandTrackerClient {
+  private worker: Worker;
+  private ready = false;
+  private busy = false;
+  private closed = false;
+  private lastSentAt = -Infinity;
+  // Shortest gap between frames sent to the worker (ms), to lighten tracking on slow machines
+  minIntervalMs = 0;
+
+  static isSupported() {
+    return typeof Worker !== 'undefined'
+      && typeof OffscreenCanvas !== 'undefined'
+      && typeof createImageBitmap !== 'undefined';
+  }
+
+  constructor(private callbacks: HandTrackerCallbacks, options: HandTrackerOptions = HAND_TRACKER_OPTIONS) {
+    this.worker = new Worker(new URL('../workers/handTracker.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<HandTrackerResponse>) => this.receive(event.data);
+    this.worker.onerror = event => this.fail(event.message || 'Hand tracking worker failed');
+    this.post({ type: 'init', options });
+  }
+
+  // Offers the current video frame; returns false when it was dropped
+  send(video: HTMLVideoElement, timestamp: number): boolean {
+    if (!this.ready || this.busy || this.closed || video.readyState < 2) return false;
+    if (timestamp - this.lastSentAt < this.minIntervalMs) return false;
+    this.busy = true;
+    this.lastSentAt = timestamp;
+    createImageBitmap(video).then(
+      bitmap => {
+        if (this.closed) {
+          bitmap.close();
+          return;
+        }
+        this.post({ type: 'frame', bitmap, timestamp }, [bitmap]);
+      },
+      () => {
+        this.busy = false;
+      }
+    );
+    return true;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.post({ type: 'close' });
+    // Let the worker release the model before it goes
+    setTimeout(() => this.worker.terminate(), 1000);
+  }
+
+  private post(message: HandTrackerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private receive(message: HandTrackerResponse) {
+    if (this.closed) return;
+    switch (message.type) {
+      case 'ready':
+        this.ready = true;
+        break;
+      case 'result':
+        this.busy = false;
+        this.callbacks.onResult(message.hands, message.timestamp);
+        break;
+      case 'error':
+        this.fail(message.message);
+        break;
+    }
+  }
+
+  private fail(message: string) {
+    if (this.closed) return;
+    this.closed = true;
+    this.worker.terminate();
+    this.callbacks.onError(message);
+  }
+}
@@ -0,0 +1,35 @@
+import { HandFrame } from '../types';
+import { mediapipeAsset } from './assetPaths';
+
+// Messages between HandManager and the hand tracking worker. The worker only runs
+// landmark inference; gesture recognition stays on the main thread, where the
+// results are consumed, so it can keep its state between frames.
+
+export interface HandTrackerOptions {
+  wasmPath: string; // Directory holding the MediaPipe tasks-vision wasm files
+  modelPath: string; // hand_landmarker.task
+  numHands: number;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+}
+
+export const HAND_TRACKER_OPTIONS: HandTrackerOptions = {
+  wasmPath: mediapipeAsset('tasks-vision'),
+  modelPath: mediapipeAsset('models/hand_landmarker.task'),
+  numHands: 2,
+  minDetectionConfidence: 0.7,
+  minTrackingConfidence: 0.7
+};
+
+export type HandTrackerRequest =
+  | { type: 'init'; options: HandTrackerOptions }
+  // The bitmap is transferred and closed by the worker. timestamp is the capture
+  // time on the main thread's performance.now() clock and is echoed back.
+  | { type: 'frame'; bitmap: ImageBitmap; timestamp: number }
+  | { type: 'close' };
+
+export type HandTrackerResponse =
+  | { type: 'ready'; delegate: 'GPU' | 'CPU' }
+  // Sent once for every frame, even an empty one, so the sender knows it can send the next
+  | { type: 'result'; hands: HandFrame[]; timestamp: number; inferenceMs: number }
+  | { type: 'error'; message: string };
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { readExif } from './imagePipeline';
+
+const SHORT = 3;
+const ASCII = 2;
+const LONG = 4;
+const EXIF_IFD_TAG = 0x8769;
+
+interface Entry {
+  tag: number;
+  type: number;
+  count: number;
+  value?: number; // SHORT or LONG, stored in the entry
+  data?: Uint8Array; // ASCII, in the entry when it fits in 4 bytes, otherwise after the IFDs
+}
+
+const short = (tag: number, value: number): Entry => ({ tag, type: SHORT, count: 1, value });
+const ascii = (tag: number, text: string): Entry => {
+  const data = new TextEncoder().encode(`${text}\0`);
+  return { tag, type: ASCII, count: data.length, data };
+};
+
+const orientation = (value: number) => short(0x0112, value);
+const dateTime = (text: string) => ascii(0x0132, text);
+const artist = (text: string) => ascii(0x013b, text);
+const dateTimeOriginal = (text: string) => ascii(0x9003, text);
+
+// A JPEG holding nothing but an APP1 Exif segment: IFD0 with `tags`, plus an Exif
+// sub-IFD with `exifTags` when there are any, then the long string values
+const exifJpeg = (little: boolean, tags: Entry[], exifTags: Entry[] = []): ArrayBuffer => {
+  const ifdSize = (entries: Entry[]) => 2 + entries.length * 12 + 4;
+  const ifd0 = exifTags.length > 0 ? [...tags, { tag: EXIF_IFD_TAG, type: LONG, count: 1 }] : tags;
+  const exifIfdAt = 8 + ifdSize(ifd0);
+  let dataAt = exifIfdAt + (exifTags.length > 0 ? ifdSize(exifTags) : 0);
+  const dataSize = [...ifd0, ...exifTags].reduce((sum, e) => sum + (e.data && e.data.length > 4 ? e.data.length : 0), 0);
+
+  const tiff = new Uint8Array(dataAt + dataSize);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, little ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+
+  const writeIfd = (at: number, entries: Entry[]) => {
+    view.setUint16(at, entries.length, little);
+    entries.forEach((e, i) => {
+      const entry = at + 2 + i * 12;
+      view.setUint16(entry, e.tag, little);
+      view.setUint16(entry + 2, e.type, little);
+      view.setUint32(entry + 4, e.count, little);
+      if (e.tag === EXIF_IFD_TAG) view.setUint32(entry + 8, exifIfdAt, little);
+      else if (e.type === SHORT) view.setUint16(entry + 8, e.value ?? 0, little);
+      else if (e.data && e.data.length <= 4) tiff.set(e.data, entry + 8);
+      else if (e.data) {
+        view.setUint32(entry + 8, dataAt, little);
+        tiff.set(e.data, dataAt);
+        dataAt += e.data.length;
+      }
+    });
+  };
+  writeIfd(8, ifd0);
+  if (exifTags.length > 0) writeIfd(exifIfdAt, exifTags);
+
+  const jpeg = new Uint8Array(4 + 2 + 6 + tiff.length + 2);
+  const header = new DataView(jpeg.buffer);
+  header.setUint16(0, 0xffd8);
+  header.setUint16(2, 0xffe1);
+  header.setUint16(4, 2 + 6 + tiff.length);
+  jpeg.set(new TextEncoder().encode('Exif\0\0'), 6);
+  jpeg.set(tiff, 12);
+  header.setUint16(jpeg.length - 2, 0xffd9);
+  return jpeg.buffer;
+};
+
+// EXIF dates carry no zone and are read as local time
+const CHRISTMAS_EVE = new Date(2024, 11, 24, 18, 30, 0).getTime();
+const EDITED = new Date(2025, 0, 2, 9, 15, 0).getTime();
+
+describe.each([
+  ['little-endian', true],
+  ['big-endian', false]
+])('readExif (%s)', (_, little) => {
+  it('reads the orientation and artist', () => {
+    const exif = readExif(exifJpeg(little, [orientation(6), artist('Santa Claus')]));
+
+    expect(exif).toEqual({ orientation: 6, takenAt: null, artist: 'Santa Claus' });
+  });
+
+  it('reads an artist short enough to sit inside its entry', () => {
+    expect(readExif(exifJpeg(little, [artist('Elf')])).artist).toBe('Elf');
+  });
+
+  it('prefers DateTimeOriginal over DateTime', () => {
+    const exif = readExif(
+      exifJpeg(little, [dateTime('2025:01:02 09:15:00')], [dateTimeOriginal('2024:12:24 18:30:00')])
+    );
+
+    expect(exif.takenAt).toBe(CHRISTMAS_EVE);
+  });
+
+  it('falls back to DateTime', () => {
+    expect(readExif(exifJpeg(little, [dateTime('2025:01:02 09:15:00')])).takenAt).toBe(EDITED);
+    expect(readExif(exifJpeg(little, [dateTime('2025:01:02 09:15:00')], [dateTimeOriginal('0000:00:00 00:00:00')])).takenAt)
+      .toBe(EDITED);
+  });
+
+  it('ignores an orientation out of range', () => {
+    expect(readExif(exifJpeg(little, [orientation(9)])).orientation).toBe(1);
+  });
+
+  it('does not throw on a truncated segment', () => {
+    const full = new Uint8Array(
+      exifJpeg(little, [orientation(8), artist('Santa Claus')], [dateTimeOriginal('2024:12:24 18:30:00')])
+    );
+
+    for (let length = 0; length < full.length; length++) {
+      expect(() => readExif(full.slice(0, length).buffer)).not.toThrow();
+    }
+    // Cut inside the strings: the entries before them still count
+    const cut = readExif(full.slice(0, full.length - 8).buffer);
+    expect(cut).toEqual({ orientation: 8, takenAt: null, artist: 'Santa Claus' });
+  });
+});
+
+describe('readExif', () => {
+  it('reports upright with no date or artist for anything but a JPEG', () => {
+    expect(readExif(new TextEncoder().encode('\x89PNG\r\n').buffer)).toEqual({ orientation: 1, takenAt: null, artist: null });
+  });
+});
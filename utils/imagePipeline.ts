@@ -0,0 +1,233 @@
+// Client-side preparation of uploaded photos before they become textures:
+// decode, honor EXIF orientation, crop or fit, and downscale to power-of-two
+// dimensions so the GPU can mipmap them without resizing.
+
+export interface ExifInfo {
+  orientation: number; // 1-8, 1 = upright
+  takenAt: number | null; // ms since epoch, from DateTimeOriginal or else DateTime
+  artist: string | null;
+}
+
+export interface ImagePipelineOptions {
+  maxSize: number; // Longest output side, a power of two
+  // 'contain' keeps the whole photo and its aspect ratio; 'cover' center-crops to `aspect`
+  fit: 'contain' | 'cover';
+  aspect: number; // width / height, only used by 'cover'
+  quality: number; // JPEG quality 0-1
+}
+
+export const DEFAULT_PIPELINE_OPTIONS: ImagePipelineOptions = {
+  maxSize: 1024,
+  fit: 'contain',
+  aspect: 1,
+  quality: 0.9
+};
+
+export interface ProcessedImage {
+  blob: Blob;
+  // Aspect ratio of the visible photo after orientation and cropping. The blob itself
+  // is stretched to power-of-two dimensions, so this is what the frame should use.
+  aspect: number;
+  exif: ExifInfo; // Of the original file
+}
+
+const ORIENTATION_TAG = 0x0112;
+const DATE_TIME_TAG = 0x0132;
+const ARTIST_TAG = 0x013b;
+const EXIF_IFD_TAG = 0x8769; // Points at the sub-IFD holding the capture details
+const DATE_TIME_ORIGINAL_TAG = 0x9003;
+const ASCII_TYPE = 2;
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time, with no zone
+const parseExifDate = (value: string): number | null => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  if (year === 0) return null;
+  return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+};
+
+// Reads the orientation, capture date and artist from a JPEG's APP1 Exif segment.
+// Anything else reports upright with no date or artist.
+export const readExif = (buffer: ArrayBuffer): ExifInfo => {
+  const info: ExifInfo = { orientation: 1, takenAt: null, artist: null };
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return info;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: no more metadata segments
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+
+    // "Exif\0\0" header
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) break;
+      const little = view.getUint16(tiff) === 0x4949;
+
+      // ASCII values up to 4 bytes sit in the entry itself, longer ones at an offset from the TIFF header
+      const readAscii = (entry: number) => {
+        if (view.getUint16(entry + 2, little) !== ASCII_TYPE) return null;
+        const count = view.getUint32(entry + 4, little);
+        const start = count <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+        if (start + count > view.byteLength) return null;
+        const text = new TextDecoder().decode(new Uint8Array(buffer, start, count)).replace(/\0+$/, '').trim();
+        return text || null;
+      };
+
+      // Calls `visit` with each tag and its entry's offset
+      const readIfd = (ifd: number, visit: (tag: number, entry: number) => void) => {
+        if (ifd + 2 > view.byteLength) return;
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (entry + 12 > view.byteLength) break;
+          visit(view.getUint16(entry, little), entry);
+        }
+      };
+
+      let exifIfd: number | null = null;
+      readIfd(tiff + view.getUint32(tiff + 4, little), (tag, entry) => {
+        if (tag === ORIENTATION_TAG) {
+          const value = view.getUint16(entry + 8, little);
+          if (value >= 1 && value <= 8) info.orientation = value;
+        } else if (tag === DATE_TIME_TAG) {
+          info.takenAt = parseExifDate(readAscii(entry) ?? '');
+        } else if (tag === ARTIST_TAG) {
+          info.artist = readAscii(entry);
+        } else if (tag === EXIF_IFD_TAG) {
+          exifIfd = tiff + view.getUint32(entry + 8, little);
+        }
+      });
+      // DateTime is when the file was last edited; prefer when the shutter fired
+      if (exifIfd !== null) {
+        readIfd(exifIfd, (tag, entry) => {
+          if (tag === DATE_TIME_ORIGINAL_TAG) info.takenAt = parseExifDate(readAscii(entry) ?? '') ?? info.takenAt;
+        });
+      }
+      break;
+    }
+    offset += 2 + length;
+  }
+  return info;
+};
+
+// Minimal APP1 segment: big-endian TIFF with a single Orientation = 6 entry
+const PROBE_EXIF = new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00
+]);
+
+let appliesOrientation: Promise<boolean> | null = null;
+
+// Current browsers rotate decoded images by their EXIF orientation, older ones don't.
+// Decode a 2x1 probe tagged "rotate 90°" once and see which way round it comes out.
+const browserAppliesOrientation = (): Promise<boolean> => {
+  if (!appliesOrientation) {
+    appliesOrientation = (async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 2;
+      canvas.height = 1;
+      const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg'));
+      if (!jpeg) return true;
+      const bytes = new Uint8Array(await jpeg.arrayBuffer());
+      const probe = new Blob([bytes.slice(0, 2), PROBE_EXIF, bytes.slice(2)], { type: 'image/jpeg' });
+      const bitmap = await createImageBitmap(probe);
+      const applied = bitmap.width === 1;
+      bitmap.close();
+      return applied;
+    })().catch(() => true);
+  }
+  return appliesOrientation;
+};
+
+// Canvas transform that draws a raw image upright into a canvas of the oriented size
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+};
+
+// Nearest power of two in log space, so 700 -> 512 and 800 -> 1024
+const nearestPowerOfTwo = (value: number, max: number) =>
+  Math.min(max, Math.max(64, 2 ** Math.round(Math.log2(value))));
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas not available');
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
+
+export const processImage = async (
+  file: Blob,
+  options: Partial<ImagePipelineOptions> = {}
+): Promise<ProcessedImage> => {
+  const { maxSize, fit, aspect: targetAspect, quality } = { ...DEFAULT_PIPELINE_OPTIONS, ...options };
+  const exif = readExif(await file.arrayBuffer());
+  const { orientation } = exif;
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    // Upright source, downscaled early so a 12MP photo never sits in a full-size canvas
+    let source: CanvasImageSource = bitmap;
+    let width = bitmap.width;
+    let height = bitmap.height;
+    const prescale = Math.min(1, (maxSize * 2) / Math.max(width, height));
+
+    if (orientation > 1 && !(await browserAppliesOrientation())) {
+      const rawWidth = Math.round(width * prescale);
+      const rawHeight = Math.round(height * prescale);
+      const swap = orientation >= 5;
+      width = swap ? rawHeight : rawWidth;
+      height = swap ? rawWidth : rawHeight;
+      const { canvas, ctx } = createCanvas(width, height);
+      applyOrientation(ctx, orientation, width, height);
+      ctx.drawImage(bitmap, 0, 0, rawWidth, rawHeight);
+      source = canvas;
+    }
+
+    // Region of the upright image that ends up in the texture
+    let cropWidth = width;
+    let cropHeight = height;
+    if (fit === 'cover') {
+      if (width / height > targetAspect) {
+        cropWidth = height * targetAspect;
+      } else {
+        cropHeight = width / targetAspect;
+      }
+    }
+    const cropX = (width - cropWidth) / 2;
+    const cropY = (height - cropHeight) / 2;
+
+    const scale = Math.min(1, maxSize / Math.max(cropWidth, cropHeight));
+    const outWidth = nearestPowerOfTwo(cropWidth * scale, maxSize);
+    const outHeight = nearestPowerOfTwo(cropHeight * scale, maxSize);
+
+    const { canvas, ctx } = createCanvas(outWidth, outHeight);
+    ctx.drawImage(source, cropX, cropY, cropWidth, cropHeight, 0, 0, outWidth, outHeight);
+
+    // Keep transparency for PNGs, JPEG for everything else
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+    if (!blob) throw new Error('Failed to encode processed image');
+
+    return { blob, aspect: cropWidth / cropHeight, exif };
+  } finally {
+    bitmap.close();
+  }
+};
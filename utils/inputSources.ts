@@ -0,0 +1,255 @@
+import { FallbackInputKind, GestureKind, GestureSink, HandGesture, InputSource } from '../types';
+import { GestureRecognizer, IDLE_GESTURE } from './gestureRecognizer';
+import { LandmarkRecording, recordingDuration } from './landmarkRecording';
+
+// Fallback input sources for when the webcam or MediaPipe is unavailable.
+// They produce the same HandGesture frames and start/end events as hand tracking.
+
+// Two-handed gestures have no single-hand flag and are only reported as events
+const GESTURE_FLAGS: Partial<Record<GestureKind, 'isFist' | 'isOpenPalm' | 'isPinching'>> = {
+  FIST: 'isFist',
+  OPEN_PALM: 'isOpenPalm',
+  PINCH: 'isPinching'
+};
+
+// Shortcuts shown in the controls overlay; the first key of each is the primary one.
+// Swipes use the arrow keys instead.
+export const KEY_BINDINGS: Record<Exclude<GestureKind, 'SWIPE'>, string[]> = {
+  FIST: ['1', 'a'],
+  OPEN_PALM: ['2', 'e'],
+  PINCH: ['3', 'f'],
+  BOTH_PALMS: ['4', 'c']
+};
+
+const KEY_SWIPE_VELOCITY = 2;
+
+const keyToGesture = (key: string): Exclude<GestureKind, 'SWIPE'> | null => {
+  const lower = key.toLowerCase();
+  const kinds = Object.keys(KEY_BINDINGS) as Exclude<GestureKind, 'SWIPE'>[];
+  return kinds.find(kind => KEY_BINDINGS[kind].includes(lower)) ?? null;
+};
+
+// Holds the synthesized gesture and reports changes to the sink
+class GestureEmitter {
+  private gesture: HandGesture = { ...IDLE_GESTURE, tracked: true };
+  private active = new Set<GestureKind>();
+
+  constructor(private sink: GestureSink) {}
+
+  setActive(kind: GestureKind, active: boolean) {
+    if (this.active.has(kind) === active) return;
+
+    if (active) {
+      this.active.add(kind);
+    } else {
+      this.active.delete(kind);
+    }
+    const flag = GESTURE_FLAGS[kind];
+    if (flag) this.gesture = { ...this.gesture, [flag]: active, timestamp: performance.now() };
+    this.sink.onGestureEvent({ type: active ? 'start' : 'end', gesture: kind, timestamp: performance.now() });
+    this.sink.onGestureUpdate(this.gesture);
+  }
+
+  // Fire a momentary gesture
+  tap(kind: GestureKind) {
+    this.setActive(kind, true);
+    this.setActive(kind, false);
+  }
+
+  swipe(velocity: number) {
+    const timestamp = performance.now();
+    this.sink.onGestureEvent({ type: 'start', gesture: 'SWIPE', timestamp, velocity });
+    this.sink.onGestureEvent({ type: 'end', gesture: 'SWIPE', timestamp, velocity });
+  }
+
+  moveTo(x: number, y: number) {
+    this.gesture = { ...this.gesture, handPosition: { x, y }, timestamp: performance.now() };
+    this.sink.onGestureUpdate(this.gesture);
+  }
+
+  releaseAll() {
+    Array.from(this.active).forEach(kind => this.setActive(kind, false));
+  }
+}
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Keyboard shortcuts for the gestures, mouse position for handPosition
+export class KeyboardMouseInputSource implements InputSource {
+  readonly kind = 'KEYBOARD_MOUSE' as const;
+  private emitter: GestureEmitter | null = null;
+
+  start(sink: GestureSink) {
+    this.emitter = new GestureEmitter(sink);
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('mousemove', this.handleMouseMove);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  stop() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('mousemove', this.handleMouseMove);
+    window.removeEventListener('blur', this.handleBlur);
+    this.emitter = null;
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.repeat || isTextInput(event.target)) return;
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      this.emitter?.swipe(event.key === 'ArrowLeft' ? -KEY_SWIPE_VELOCITY : KEY_SWIPE_VELOCITY);
+      return;
+    }
+    const kind = keyToGesture(event.key);
+    if (kind) this.emitter?.setActive(kind, true);
+  };
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    const kind = keyToGesture(event.key);
+    if (kind) this.emitter?.setActive(kind, false);
+  };
+
+  private handleMouseMove = (event: MouseEvent) => {
+    this.emitter?.moveTo(event.clientX / window.innerWidth, event.clientY / window.innerHeight);
+  };
+
+  // Keys released while the window is unfocused never fire keyup
+  private handleBlur = () => {
+    this.emitter?.releaseAll();
+  };
+}
+
+const PINCH_RATIO = 0.75; // Fingers closed to 75% of their starting distance
+const SPREAD_RATIO = 1.3; // Fingers opened to 130% of their starting distance
+const DOUBLE_TAP_MS = 300;
+
+// One finger aims, two fingers pinching in focus, spreading out explodes, double tap assembles.
+// Listens on the scene's own layer, so taps on the panels above it aren't gestures.
+export class TouchInputSource implements InputSource {
+  readonly kind = 'TOUCH' as const;
+  private emitter: GestureEmitter | null = null;
+  private startDistance: number | null = null;
+  private lastTapTime = 0;
+
+  constructor(private surface: HTMLElement | Window = window) {}
+
+  start(sink: GestureSink) {
+    this.emitter = new GestureEmitter(sink);
+    this.surface.addEventListener('touchstart', this.handleTouchStart, { passive: true });
+    this.surface.addEventListener('touchmove', this.handleTouchMove, { passive: true });
+    this.surface.addEventListener('touchend', this.handleTouchEnd, { passive: true });
+    this.surface.addEventListener('touchcancel', this.handleTouchEnd, { passive: true });
+  }
+
+  stop() {
+    this.surface.removeEventListener('touchstart', this.handleTouchStart);
+    this.surface.removeEventListener('touchmove', this.handleTouchMove);
+    this.surface.removeEventListener('touchend', this.handleTouchEnd);
+    this.surface.removeEventListener('touchcancel', this.handleTouchEnd);
+    this.emitter = null;
+  }
+
+  private handleTouchStart = (event: TouchEvent) => {
+    if (event.touches.length === 2) {
+      this.startDistance = touchDistance(event.touches);
+    } else if (event.touches.length === 1) {
+      const now = performance.now();
+      if (now - this.lastTapTime < DOUBLE_TAP_MS) {
+        this.emitter?.tap('FIST');
+        this.lastTapTime = 0;
+      } else {
+        this.lastTapTime = now;
+      }
+    }
+    this.track(event.touches);
+  };
+
+  private handleTouchMove = (event: TouchEvent) => {
+    this.track(event.touches);
+
+    if (event.touches.length !== 2 || !this.startDistance) return;
+    const ratio = touchDistance(event.touches) / this.startDistance;
+    if (ratio < PINCH_RATIO) this.emitter?.setActive('PINCH', true);
+    if (ratio > SPREAD_RATIO) this.emitter?.setActive('OPEN_PALM', true);
+  };
+
+  private handleTouchEnd = (event: TouchEvent) => {
+    if (event.touches.length < 2) {
+      this.startDistance = null;
+      this.emitter?.setActive('PINCH', false);
+      this.emitter?.setActive('OPEN_PALM', false);
+    }
+  };
+
+  // Aim with the single finger, or the midpoint of two
+  private track(touches: TouchList) {
+    if (touches.length === 0) return;
+    let x = 0;
+    let y = 0;
+    const count = Math.min(touches.length, 2);
+    for (let i = 0; i < count; i++) {
+      x += touches[i].clientX;
+      y += touches[i].clientY;
+    }
+    this.emitter?.moveTo(x / count / window.innerWidth, y / count / window.innerHeight);
+  }
+}
+
+const touchDistance = (touches: TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+// Gap between the end of a looped recording and its restart
+const REPLAY_LOOP_GAP_MS = 500;
+
+// Plays recorded landmarks back in real time through a fresh GestureRecognizer,
+// exactly as HandManager would have fed them live
+export class ReplayInputSource implements InputSource {
+  readonly kind = 'REPLAY' as const;
+  private frameId = 0;
+
+  constructor(private recording: LandmarkRecording, private loop = true) {}
+
+  start(sink: GestureSink) {
+    const { frames } = this.recording;
+    if (frames.length === 0) return;
+    const duration = recordingDuration(this.recording) + REPLAY_LOOP_GAP_MS;
+    let recognizer = new GestureRecognizer();
+    let startedAt = performance.now();
+    let next = 0;
+
+    const tick = () => {
+      const now = performance.now();
+      while (next < frames.length && startedAt + frames[next].t <= now) {
+        const { gesture, events } = recognizer.update(frames[next].hands, startedAt + frames[next].t);
+        events.forEach(event => sink.onGestureEvent(event));
+        sink.onGestureUpdate(gesture);
+        next++;
+      }
+      if (next >= frames.length) {
+        if (!this.loop) return;
+        if (now >= startedAt + duration) {
+          // Start clean, so gestures held at the end don't carry over
+          recognizer = new GestureRecognizer();
+          startedAt += duration;
+          next = 0;
+        }
+      }
+      this.frameId = requestAnimationFrame(tick);
+    };
+    this.frameId = requestAnimationFrame(tick);
+  }
+
+  stop() {
+    cancelAnimationFrame(this.frameId);
+  }
+}
+
+// Touch-first devices get touch gestures, everything else keyboard and mouse
+export const detectFallbackKind = (): FallbackInputKind =>
+  window.matchMedia?.('(pointer: coarse)').matches ? 'TOUCH' : 'KEYBOARD_MOUSE';
+
+// touchSurface is the element touch gestures are read from, normally the scene's layer
+export const createFallbackInput = (kind: FallbackInputKind, touchSurface?: HTMLElement): InputSource =>
+  kind === 'TOUCH' ? new TouchInputSource(touchSurface) : new KeyboardMouseInputSource();
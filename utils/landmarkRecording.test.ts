@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { AppState } from '../types';
+import { RECORDING_VERSION, parseRecording, replayRecording, serializeRecording, validateRecording } from './landmarkRecording';
+
+// A right hand that rests, opens its palm, pinches over a photo and closes into a fist
+const FIXTURE = readFileSync(new URL('./fixtures/palm-pinch-fist.json', import.meta.url), 'utf8');
+
+const frame = (hand: unknown) => ({ version: RECORDING_VERSION, frames: [{ t: 0, hands: [hand] }] });
+const landmarks = (count: number) => Array.from({ length: count }, () => [0.5, 0.5, 0]);
+
+describe('replayRecording', () => {
+  it('replays a recorded session into the gestures and states it triggered', () => {
+    const recording = parseRecording(FIXTURE);
+    const { events, states, context } = replayRecording(recording, { hoveredPhotoId: 3 });
+
+    expect(events.map(e => `${e.type} ${e.gesture}`)).toEqual([
+      'start OPEN_PALM',
+      'end OPEN_PALM',
+      'start PINCH',
+      'end PINCH',
+      'start FIST',
+      'end FIST'
+    ]);
+    expect(states.map(s => s.state)).toEqual([AppState.TREE, AppState.EXPLODED, AppState.FOCUS, AppState.TREE]);
+    expect(context.focusedPhotoId).toBeNull();
+  });
+
+  it('does not focus a pinch that misses every photo', () => {
+    const { states } = replayRecording(parseRecording(FIXTURE));
+
+    expect(states.map(s => s.state)).toEqual([AppState.TREE, AppState.EXPLODED, AppState.TREE]);
+  });
+
+  it('survives a round trip through its file format', () => {
+    const recording = parseRecording(FIXTURE);
+
+    expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+  });
+});
+
+describe('validateRecording', () => {
+  it('rejects other versions', () => {
+    expect(() => validateRecording({ version: 2, frames: [] })).toThrow('Invalid recording: version must be 1');
+    expect(() => validateRecording({ frames: [] })).toThrow('Invalid recording: version must be 1');
+  });
+
+  it('rejects badly shaped frames', () => {
+    expect(() => validateRecording({ version: 1, frames: {} })).toThrow('Invalid recording: frames must be an array');
+    expect(() => validateRecording({ version: 1, frames: [{ t: 'soon', hands: [] }] }))
+      .toThrow('Invalid recording: frames[0].t must be a number');
+    expect(() => validateRecording({ version: 1, frames: [{ t: 10, hands: [] }, { t: 5, hands: [] }] }))
+      .toThrow('Invalid recording: frames[1].t must be no earlier than the frame before');
+  });
+
+  it('rejects badly shaped hands', () => {
+    expect(() => validateRecording(frame({ handedness: 'Both', landmarks: landmarks(21) })))
+      .toThrow('Invalid recording: frames[0].hands[0].handedness must be "Left" or "Right"');
+    expect(() => validateRecording(frame({ handedness: 'Left', landmarks: landmarks(20) })))
+      .toThrow('Invalid recording: frames[0].hands[0].landmarks must be 21 landmarks');
+    expect(() => validateRecording(frame({ handedness: 'Left', landmarks: [[0.5, null, 0], ...landmarks(20)] })))
+      .toThrow('Invalid recording: frames[0].hands[0].landmarks[0][1] must be a number');
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseRecording('{"version": 1')).toThrow('Invalid recording: not valid JSON');
+  });
+});
@@ -0,0 +1,180 @@
+import { AppState, GestureEvent, HandFrame, HandGesture, Handedness } from '../types';
+import { GestureRecognizer, GestureRecognizerOptions } from './gestureRecognizer';
+import { AppContext, GestureResolver, createAppMachine } from './appMachine';
+
+// Records the raw landmarks coming out of MediaPipe so a session can be played
+// back without a camera: through the ReplayInputSource in the app, or headless
+// through replayRecording() to check what a real hand actually triggers.
+
+export const RECORDING_VERSION = 1;
+const LANDMARK_COUNT = 21;
+
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  hands: HandFrame[];
+}
+
+export interface LandmarkRecording {
+  version: typeof RECORDING_VERSION;
+  recordedAt: string; // ISO date
+  frames: RecordedFrame[];
+}
+
+export class LandmarkRecorder {
+  private frames: RecordedFrame[] = [];
+  private startedAt: number | null = null;
+  private recordedAt = '';
+
+  get isRecording() {
+    return this.startedAt !== null;
+  }
+
+  start() {
+    this.frames = [];
+    this.recordedAt = new Date().toISOString();
+    // The real start is taken from the first frame, so the recording doesn't open with dead time
+    this.startedAt = -1;
+  }
+
+  // Feed every frame HandManager processes, with its capture timestamp in ms
+  capture(hands: HandFrame[], timestamp: number) {
+    if (this.startedAt === null) return;
+    if (this.startedAt < 0) this.startedAt = timestamp;
+    this.frames.push({
+      t: timestamp - this.startedAt,
+      hands: hands.map(({ landmarks, handedness }) => ({
+        handedness,
+        landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z }))
+      }))
+    });
+  }
+
+  stop(): LandmarkRecording {
+    const recording: LandmarkRecording = { version: RECORDING_VERSION, recordedAt: this.recordedAt, frames: this.frames };
+    this.frames = [];
+    this.startedAt = null;
+    return recording;
+  }
+}
+
+// On disk each landmark is an [x, y, z] triple rounded to 0.1 pixel at 1080p,
+// which keeps a minute of two-handed tracking to about a megabyte
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+export const serializeRecording = (recording: LandmarkRecording): string =>
+  JSON.stringify({
+    version: recording.version,
+    recordedAt: recording.recordedAt,
+    frames: recording.frames.map(({ t, hands }) => ({
+      t: Math.round(t * 10) / 10,
+      hands: hands.map(({ handedness, landmarks }) => ({
+        handedness,
+        landmarks: landmarks.map(({ x, y, z }) => [round(x), round(y), round(z)])
+      }))
+    }))
+  });
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid recording: ${path} must be ${expected}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readArray = (value: unknown, path: string): unknown[] => (Array.isArray(value) ? value : fail(path, 'an array'));
+
+const readNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number');
+
+const readHand = (value: unknown, path: string): HandFrame => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const handedness = value.handedness;
+  if (handedness !== 'Left' && handedness !== 'Right') fail(`${path}.handedness`, '"Left" or "Right"');
+  const landmarks = readArray(value.landmarks, `${path}.landmarks`);
+  if (landmarks.length !== LANDMARK_COUNT) fail(`${path}.landmarks`, `${LANDMARK_COUNT} landmarks`);
+  return {
+    handedness: handedness as Handedness,
+    landmarks: landmarks.map((point, i) => {
+      const p = `${path}.landmarks[${i}]`;
+      const [x, y, z] = readArray(point, p);
+      return { x: readNumber(x, `${p}[0]`), y: readNumber(y, `${p}[1]`), z: readNumber(z, `${p}[2]`) };
+    })
+  };
+};
+
+export const validateRecording = (value: unknown): LandmarkRecording => {
+  if (!isObject(value)) return fail('recording', 'an object');
+  if (value.version !== RECORDING_VERSION) fail('version', String(RECORDING_VERSION));
+  let last = -Infinity;
+  const frames = readArray(value.frames, 'frames').map((frame, i): RecordedFrame => {
+    if (!isObject(frame)) return fail(`frames[${i}]`, 'an object');
+    const t = readNumber(frame.t, `frames[${i}].t`);
+    if (t < last) fail(`frames[${i}].t`, 'no earlier than the frame before');
+    last = t;
+    return { t, hands: readArray(frame.hands, `frames[${i}].hands`).map((hand, j) => readHand(hand, `frames[${i}].hands[${j}]`)) };
+  });
+  return {
+    version: RECORDING_VERSION,
+    recordedAt: typeof value.recordedAt === 'string' ? value.recordedAt : '',
+    frames
+  };
+};
+
+export const parseRecording = (json: string): LandmarkRecording => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid recording: not valid JSON');
+  }
+  return validateRecording(value);
+};
+
+export const recordingDuration = (recording: LandmarkRecording) =>
+  recording.frames.length > 0 ? recording.frames[recording.frames.length - 1].t : 0;
+
+export interface ReplayOptions {
+  recognizer?: Partial<GestureRecognizerOptions>;
+  // Stands in for the photo under the hand cursor, which needs the 3D scene to know
+  hoveredPhotoId?: number | null;
+}
+
+export interface ReplayResult {
+  gestures: HandGesture[]; // One per frame
+  events: GestureEvent[];
+  // Every state the machine entered, starting with the initial one at t = 0
+  states: { t: number; state: AppState }[];
+  // When a held pinch on the assembled tree would have started the picture countdown
+  pinchHolds: number[];
+  context: AppContext; // At the end of the recording
+}
+
+// Runs a recording through the same recognizer and App state machine as the live
+// app, synchronously and without a browser
+export const replayRecording = (recording: LandmarkRecording, options: ReplayOptions = {}): ReplayResult => {
+  const recognizer = new GestureRecognizer(options.recognizer);
+  const machine = createAppMachine();
+  const resolver = new GestureResolver();
+  const gestures: HandGesture[] = [];
+  const events: GestureEvent[] = [];
+  const states = [{ t: 0, state: machine.getSnapshot().state }];
+  const pinchHolds: number[] = [];
+
+  recording.frames.forEach(({ t, hands }) => {
+    if (resolver.poll(t)) pinchHolds.push(t);
+    const output = recognizer.update(hands, t);
+    gestures.push(output.gesture);
+    output.events.forEach(event => {
+      events.push(event);
+      const before = machine.getSnapshot().state;
+      const resolved = resolver.resolve(event, before, options.hoveredPhotoId ?? null);
+      if (resolved === 'PINCH_HOLD') pinchHolds.push(t);
+      if (!resolved || resolved === 'PINCH_HOLD') return;
+      machine.send(resolved);
+      const after = machine.getSnapshot().state;
+      if (after !== before) states.push({ t, state: after });
+    });
+  });
+
+  return { gestures, events, states, pinchHolds, context: machine.getSnapshot().context };
+};
@@ -0,0 +1,251 @@
+import * as THREE from 'three';
+import { LayoutParams, LayoutSelection } from '../types';
+import { Random } from './random';
+import { ShapeMask, createTextMask, sampleMask } from './shapeMask';
+
+// Registry of shapes the particles can assemble into. Each layout only decides
+// home positions; everything else about a particle (type, color, exploded spot)
+// stays the same, so switching layouts morphs the same particles into a new shape.
+
+export type LayoutParamDefinition =
+  | { key: string; label: string; type: 'number'; min: number; max: number; step: number; default: number }
+  | { key: string; label: string; type: 'text'; default: string; maxLength: number };
+
+export interface LayoutInput {
+  count: number;
+  params: LayoutParams;
+  random: Random;
+  mask: ShapeMask | null; // Uploaded silhouette, for layouts that need one
+}
+
+export interface LayoutDefinition {
+  id: string;
+  label: string;
+  params: LayoutParamDefinition[];
+  needsMask?: boolean;
+  // One home position per particle, roughly bottom to top, centered on the origin
+  generate: (input: LayoutInput) => THREE.Vector3[];
+}
+
+const registry = new Map<string, LayoutDefinition>();
+
+export const registerLayout = (layout: LayoutDefinition) => {
+  registry.set(layout.id, layout);
+};
+
+export const getLayout = (id: string): LayoutDefinition | undefined => registry.get(id);
+
+export const listLayouts = (): LayoutDefinition[] => Array.from(registry.values());
+
+export const defaultParams = (layout: LayoutDefinition): LayoutParams =>
+  Object.fromEntries(layout.params.map(p => [p.key, p.default]));
+
+// Reads a number parameter, falling back to its default if missing or the wrong type
+const num = (input: LayoutInput, layout: LayoutDefinition, key: string): number => {
+  const value = input.params[key];
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const def = layout.params.find(p => p.key === key);
+  return def && def.type === 'number' ? def.default : 0;
+};
+
+const text = (input: LayoutInput, layout: LayoutDefinition, key: string): string => {
+  const value = input.params[key];
+  if (typeof value === 'string') return value;
+  const def = layout.params.find(p => p.key === key);
+  return def && def.type === 'text' ? def.default : '';
+};
+
+// Golden Angle in radians (approx 137.5 degrees), spreads points evenly around an axis
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+const randomOnSphere = (random: Random, radius: number, target: THREE.Vector3) => {
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(random() * 2 - 1);
+  return target.setFromSphericalCoords(radius, phi, theta);
+};
+
+const cone: LayoutDefinition = {
+  id: 'cone',
+  label: 'Spiral Tree',
+  params: [
+    { key: 'height', label: 'Height', type: 'number', min: 8, max: 24, step: 1, default: 18 },
+    { key: 'radius', label: 'Radius', type: 'number', min: 3, max: 12, step: 0.5, default: 7 },
+    { key: 'jitter', label: 'Jitter', type: 'number', min: 0, max: 2, step: 0.1, default: 0.5 }
+  ],
+  generate(input) {
+    const height = num(input, this, 'height');
+    const bottomRadius = num(input, this, 'radius');
+    const jitter = num(input, this, 'jitter');
+    return Array.from({ length: input.count }, (_, i) => {
+      const y = (i / input.count) * height; // 0 to height
+      const inverseY = 1 - (y / height); // 1 at bottom, 0 at top
+      const angle = i * GOLDEN_ANGLE;
+      const radius = bottomRadius * inverseY + (input.random() * jitter);
+      return new THREE.Vector3(Math.cos(angle) * radius, y - height / 2, Math.sin(angle) * radius);
+    });
+  }
+};
+
+const tieredFir: LayoutDefinition = {
+  id: 'tiered-fir',
+  label: 'Tiered Fir',
+  params: [
+    { key: 'tiers', label: 'Tiers', type: 'number', min: 2, max: 8, step: 1, default: 4 },
+    { key: 'height', label: 'Height', type: 'number', min: 8, max: 24, step: 1, default: 18 },
+    { key: 'radius', label: 'Radius', type: 'number', min: 3, max: 12, step: 0.5, default: 7.5 }
+  ],
+  generate(input) {
+    const tiers = Math.round(num(input, this, 'tiers'));
+    const height = num(input, this, 'height');
+    const radius = num(input, this, 'radius');
+    return Array.from({ length: input.count }, (_, i) => {
+      const t = i / input.count;
+      const tier = Math.min(tiers - 1, Math.floor(t * tiers));
+      const withinTier = t * tiers - tier; // 0 at the tier's skirt, 1 at its tip
+      // Each tier is a flared cone a bit narrower than the one below, overlapping it
+      const tierRadius = radius * (1 - tier / (tiers + 1));
+      const r = tierRadius * (1 - withinTier * 0.8) * (0.85 + input.random() * 0.15);
+      const y = (tier + withinTier * 1.4) / (tiers + 0.4) * height;
+      const angle = i * GOLDEN_ANGLE;
+      return new THREE.Vector3(Math.cos(angle) * r, y - height / 2, Math.sin(angle) * r);
+    });
+  }
+};
+
+// 2D cross product
+const cross = (ax: number, ay: number, bx: number, by: number) => ax * by - ay * bx;
+
+const star: LayoutDefinition = {
+  id: 'star',
+  label: 'Star',
+  params: [
+    { key: 'points', label: 'Points', type: 'number', min: 4, max: 8, step: 1, default: 5 },
+    { key: 'radius', label: 'Radius', type: 'number', min: 4, max: 12, step: 0.5, default: 9 },
+    { key: 'innerRatio', label: 'Inner Ratio', type: 'number', min: 0.2, max: 0.8, step: 0.05, default: 0.45 },
+    { key: 'depth', label: 'Depth', type: 'number', min: 0, max: 6, step: 0.5, default: 2 }
+  ],
+  generate(input) {
+    const points = Math.round(num(input, this, 'points'));
+    const outer = num(input, this, 'radius');
+    const inner = outer * num(input, this, 'innerRatio');
+    const depth = num(input, this, 'depth');
+    const step = Math.PI / points; // Angle between an outer and the next inner vertex
+
+    const positions = Array.from({ length: input.count }, () => {
+      // Angle measured from straight up so a point sits at the top
+      const angle = input.random() * Math.PI * 2;
+      const segment = Math.floor(angle / step);
+      const a = segment * step;
+      const b = a + step;
+      const ra = segment % 2 === 0 ? outer : inner;
+      const rb = segment % 2 === 0 ? inner : outer;
+      const ax = Math.sin(a) * ra, ay = Math.cos(a) * ra;
+      const bx = Math.sin(b) * rb, by = Math.cos(b) * rb;
+      const dx = Math.sin(angle), dy = Math.cos(angle);
+      // Distance along this ray to the edge between the two vertices
+      const edge = cross(ax, ay, bx - ax, by - ay) / cross(dx, dy, bx - ax, by - ay);
+      const r = Math.sqrt(input.random()) * edge;
+      return new THREE.Vector3(dx * r, dy * r, (input.random() - 0.5) * depth);
+    });
+    return positions.sort((p, q) => p.y - q.y);
+  }
+};
+
+const snowman: LayoutDefinition = {
+  id: 'snowman',
+  label: 'Snowman',
+  params: [
+    { key: 'size', label: 'Size', type: 'number', min: 0.5, max: 1.5, step: 0.05, default: 1 }
+  ],
+  generate(input) {
+    const size = num(input, this, 'size');
+    const radii = [4.5, 3.2, 2.2].map(r => r * size);
+    // Stack the balls, each sinking a little into the one below
+    const centers = [0];
+    for (let i = 1; i < radii.length; i++) {
+      centers.push(centers[i - 1] + (radii[i - 1] + radii[i]) * 0.8);
+    }
+    // Center the whole stack vertically
+    const offset = (centers[0] - radii[0] + centers[2] + radii[2]) / 2;
+    // Spread particles by surface area
+    const areas = radii.map(r => r * r);
+    const total = areas.reduce((a, b) => a + b, 0);
+    const counts = areas.map(a => Math.round(input.count * a / total));
+    counts[0] += input.count - counts.reduce((a, b) => a + b, 0);
+
+    const positions: THREE.Vector3[] = [];
+    counts.forEach((n, ball) => {
+      for (let i = 0; i < n; i++) {
+        const p = randomOnSphere(input.random, radii[ball], new THREE.Vector3());
+        p.y += centers[ball] - offset;
+        positions.push(p);
+      }
+    });
+    return positions;
+  }
+};
+
+const wreath: LayoutDefinition = {
+  id: 'wreath',
+  label: 'Wreath',
+  params: [
+    { key: 'radius', label: 'Radius', type: 'number', min: 4, max: 12, step: 0.5, default: 8 },
+    { key: 'thickness', label: 'Thickness', type: 'number', min: 0.5, max: 4, step: 0.25, default: 1.8 }
+  ],
+  generate(input) {
+    const radius = num(input, this, 'radius');
+    const thickness = num(input, this, 'thickness');
+    // A torus facing the camera
+    return Array.from({ length: input.count }, (_, i) => {
+      const around = (i / input.count) * Math.PI * 2 - Math.PI / 2;
+      const tube = input.random() * Math.PI * 2;
+      const r = thickness * (0.6 + input.random() * 0.4);
+      const ring = radius + Math.cos(tube) * r;
+      return new THREE.Vector3(Math.cos(around) * ring, Math.sin(around) * ring, Math.sin(tube) * r);
+    });
+  }
+};
+
+const textLayout: LayoutDefinition = {
+  id: 'text',
+  label: 'Text',
+  params: [
+    { key: 'text', label: 'Text', type: 'text', default: 'NOEL', maxLength: 24 },
+    { key: 'width', label: 'Width', type: 'number', min: 10, max: 40, step: 1, default: 26 },
+    { key: 'depth', label: 'Depth', type: 'number', min: 0, max: 4, step: 0.5, default: 1 }
+  ],
+  generate(input) {
+    const mask = createTextMask(text(input, this, 'text') || ' ');
+    return sampleMask(mask, input.count, input.random, num(input, this, 'width'), num(input, this, 'depth'));
+  }
+};
+
+const silhouette: LayoutDefinition = {
+  id: 'silhouette',
+  label: 'Image Silhouette',
+  needsMask: true,
+  params: [
+    { key: 'size', label: 'Size', type: 'number', min: 8, max: 30, step: 1, default: 18 },
+    { key: 'depth', label: 'Depth', type: 'number', min: 0, max: 4, step: 0.5, default: 1.5 }
+  ],
+  generate(input) {
+    // Without an image yet, fall back to the classic tree
+    if (!input.mask) return cone.generate({ ...input, params: defaultParams(cone) });
+    return sampleMask(input.mask, input.count, input.random, num(input, this, 'size'), num(input, this, 'depth'));
+  }
+};
+
+[cone, tieredFir, star, snowman, wreath, textLayout, silhouette].forEach(registerLayout);
+
+export const DEFAULT_LAYOUT: LayoutSelection = { id: cone.id, params: defaultParams(cone) };
+
+// Home positions for a selection; unknown layouts fall back to the classic tree
+export const generateLayoutPositions = (
+  selection: LayoutSelection,
+  count: number,
+  random: Random,
+  mask: ShapeMask | null = null
+): THREE.Vector3[] => {
+  const layout = getLayout(selection.id) ?? cone;
+  return layout.generate({ count, params: selection.params, random, mask });
+};
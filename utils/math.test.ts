@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ParticleData, PhotoSource } from '../types';
+import { generateTreeLayout } from './math';
+import { defaultParams, getLayout } from './layouts';
+import { DEFAULT_THEME } from './themes';
+
+const PHOTOS: PhotoSource[] = [
+  { url: 'https://example.com/a.jpg', aspect: 1 },
+  { url: 'https://example.com/b.jpg', aspect: 1.5 }
+];
+
+const selection = (id: string) => {
+  const layout = getLayout(id);
+  if (!layout) throw new Error(`No layout ${id}`);
+  return { id, params: defaultParams(layout) };
+};
+
+const build = (seed: string, layoutId = 'cone') =>
+  generateTreeLayout(200, PHOTOS, seed, selection(layoutId), null, DEFAULT_THEME.ornaments);
+
+// Everything that is drawn from the per-particle attribute stream, independent of the layout
+const attributes = (particles: ParticleData[]) =>
+  particles.map(p => ({
+    type: p.type,
+    color: p.color.getHexString(),
+    explodedPosition: p.explodedPosition.toArray(),
+    rotation: p.rotation.toArray(),
+    scale: p.scale
+  }));
+
+const positions = (particles: ParticleData[]) => particles.map(p => p.treePosition.toArray());
+
+describe('generateTreeLayout', () => {
+  it('builds the same tree for the same seed', () => {
+    const first = build('abc123');
+    const second = build('abc123');
+
+    expect(positions(second)).toEqual(positions(first));
+    expect(attributes(second)).toEqual(attributes(first));
+  });
+
+  it('builds a different tree for a different seed', () => {
+    const first = build('abc123');
+    const other = build('xyz789');
+
+    expect(positions(other)).not.toEqual(positions(first));
+    expect(attributes(other)).not.toEqual(attributes(first));
+  });
+
+  it('keeps every particle\'s attributes when only the layout changes', () => {
+    const cone = build('abc123', 'cone');
+    const star = build('abc123', 'star');
+
+    expect(positions(star)).not.toEqual(positions(cone));
+    expect(attributes(star)).toEqual(attributes(cone));
+  });
+});
@@ -1,65 +1,62 @@
 import * as THREE from 'three';
-import { ParticleData } from '../types';
+import { LayoutSelection, ParticleData, PhotoSource, Theme } from '../types';
+import { DEFAULT_LAYOUT, generateLayoutPositions } from './layouts';
+import { createRandom } from './random';
+import { ShapeMask } from './shapeMask';
+import { DEFAULT_THEME, pickWeighted } from './themes';
 
-export const COLORS = {
-  GREEN: new THREE.Color('#2F5A47'),
-  GOLD: new THREE.Color('#FFD700'),
-  RED: new THREE.Color('#C41E3A'),
-  WHITE: new THREE.Color('#FFFFFF')
-};
+const PHOTO_COLOR = new THREE.Color('#FFFFFF');
+
+// Photo particles are numbered after the ornaments' ids so the two never collide
+export const PHOTO_ID_OFFSET = 10000;
+export const photoParticleId = (index: number) => index + PHOTO_ID_OFFSET;
 
-// Generate positions for a spiral cone (Christmas Tree)
-export const generateTreeLayout = (count: number, photoUrls: string[]): ParticleData[] => {
+// Build the particles and their home positions in the chosen layout.
+// Every random choice comes from `seed`, so the same seed always builds the same tree.
+// Particle attributes and layout positions use separate streams: switching layout
+// keeps every particle's type, color and exploded spot, so it can morph in place.
+// Types and colors come from the theme's weighted ornament mix.
+export const generateTreeLayout = (
+  count: number,
+  photos: PhotoSource[],
+  seed: string,
+  layout: LayoutSelection = DEFAULT_LAYOUT,
+  mask: ShapeMask | null = null,
+  ornaments: Theme['ornaments'] = DEFAULT_THEME.ornaments
+): ParticleData[] => {
+  const styles = [
+    { type: 'SPHERE' as const, ...ornaments.sphere },
+    { type: 'CUBE' as const, ...ornaments.cube }
+  ];
+  const random = createRandom(seed);
+  const homes = generateLayoutPositions(layout, count, createRandom(`${seed}/layout`), mask);
   const particles: ParticleData[] = [];
-  const height = 18; // Slightly taller
-  const bottomRadius = 7;
-  
-  // Golden Angle in radians (approx 137.5 degrees)
-  const goldenAngle = Math.PI * (3 - Math.sqrt(5)); 
 
   for (let i = 0; i < count; i++) {
-    const isPhoto = i < photoUrls.length;
-    const y = (i / count) * height; // 0 to height
-    const inverseY = 1 - (y / height); // 1 at bottom, 0 at top
-    
-    // Use Golden Angle for even distribution regardless of count
-    // Multiply i by a larger factor for photos to ensure they spread out if count is low
-    const angle = i * goldenAngle; 
-    
-    const radius = bottomRadius * inverseY + (Math.random() * 0.5);
-    
-    const x = Math.cos(angle) * radius;
-    const z = Math.sin(angle) * radius;
+    const isPhoto = i < photos.length;
 
     // Tree Position (Home)
-    const treePos = new THREE.Vector3(x, y - height / 2, z);
+    const treePos = homes[i] ?? new THREE.Vector3();
     
     // Exploded Position (Random Sphere)
     const explodeRadius = 25;
-    const theta = Math.random() * Math.PI * 2;
-    const phi = Math.acos((Math.random() * 2) - 1);
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos((random() * 2) - 1);
     const exX = explodeRadius * Math.sin(phi) * Math.cos(theta);
     const exY = explodeRadius * Math.sin(phi) * Math.sin(theta);
     const exZ = explodeRadius * Math.cos(phi);
     const explodedPos = new THREE.Vector3(exX, exY, exZ);
 
     // Color & Type
-    let type: 'SPHERE' | 'CUBE' | 'PHOTO' = 'SPHERE';
-    let color = COLORS.GREEN;
+    let type: 'SPHERE' | 'CUBE' | 'PHOTO' = 'PHOTO';
+    let color = PHOTO_COLOR;
     
-    if (isPhoto) {
-      type = 'PHOTO';
-      color = COLORS.WHITE;
-    } else {
-      const rand = Math.random();
-      if (rand > 0.9) {
-        type = 'CUBE';
-        color = COLORS.GOLD;
-      } else if (rand > 0.7) {
-        color = COLORS.RED;
-      } else if (rand > 0.6) {
-        color = COLORS.GOLD;
-      }
+    if (!isPhoto) {
+      // Both rolls are always drawn so switching theme re-dresses the same particles
+      const style = pickWeighted(styles, random());
+      const swatch = pickWeighted(style.palette, random());
+      type = style.type;
+      color = new THREE.Color(swatch.color);
     }
 
     particles.push({
@@ -68,12 +65,28 @@ export const generateTreeLayout = (count: number, photoUrls: string[]): Particle
       targetPosition: treePos.clone(),
       treePosition: treePos,
       explodedPosition: explodedPos,
-      rotation: new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0),
-      scale: isPhoto ? 1.5 : Math.random() * 0.3 + 0.1,
+      rotation: new THREE.Euler(random() * Math.PI, random() * Math.PI, 0),
+      scale: isPhoto ? 1.5 : random() * 0.3 + 0.1,
       color: color,
       type: type,
-      textureUrl: isPhoto ? photoUrls[i] : undefined
+      textureUrl: isPhoto ? photos[i].url : undefined,
+      aspect: isPhoto ? photos[i].aspect : undefined,
+      meta: isPhoto ? photos[i].meta : undefined
     });
   }
   return particles;
+};
+
+// Rehangs photo particles so the oldest sits lowest on the tree and the newest highest,
+// reusing the layout's own photo spots. Undated photos go to the top in their usual order.
+export const stackPhotosByDate = (particles: ParticleData[]): ParticleData[] => {
+  const spots = particles.map(p => p.treePosition).sort((a, b) => a.y - b.y);
+  const byDate = particles
+    .map((particle, index) => ({ particle, index, time: particle.meta?.takenAt ?? Infinity }))
+    .sort((a, b) => (a.time === b.time ? a.index - b.index : a.time - b.time));
+  const stacked = [...particles];
+  byDate.forEach(({ particle, index }, rank) => {
+    stacked[index] = { ...particle, treePosition: spots[rank], targetPosition: spots[rank].clone() };
+  });
+  return stacked;
 };
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { OneEuroFilter } from './oneEuroFilter';
+
+const FRAME_MS = 1000 / 60;
+
+describe('OneEuroFilter', () => {
+  it('passes a constant input through unchanged', () => {
+    const filter = new OneEuroFilter();
+    for (let i = 0; i < 120; i++) {
+      expect(filter.filter(0.42, i * FRAME_MS)).toBeCloseTo(0.42, 12);
+    }
+  });
+
+  it('smooths a step and converges on the new value', () => {
+    const filter = new OneEuroFilter();
+    for (let i = 0; i < 60; i++) filter.filter(0, i * FRAME_MS);
+
+    const outputs = Array.from({ length: 120 }, (_, i) => filter.filter(1, (60 + i) * FRAME_MS));
+
+    expect(outputs[0]).toBeGreaterThan(0);
+    expect(outputs[0]).toBeLessThan(0.5);
+    outputs.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(outputs[i]));
+    expect(outputs[outputs.length - 1]).toBeCloseTo(1, 2);
+  });
+
+  it('ignores a frame with no time since the last one', () => {
+    const filter = new OneEuroFilter();
+    filter.filter(0, 0);
+    const value = filter.filter(1, FRAME_MS);
+
+    expect(filter.filter(5, FRAME_MS)).toBe(value);
+  });
+
+  it('starts over from the next value after a reset', () => {
+    const filter = new OneEuroFilter();
+    filter.filter(0, 0);
+    filter.reset();
+
+    expect(filter.filter(1, FRAME_MS)).toBe(1);
+  });
+});
@@ -0,0 +1,60 @@
+// One Euro filter (Casiez et al. 2012): an adaptive low-pass filter that
+// smooths jitter when the signal is slow and reduces lag when it moves fast.
+
+export interface OneEuroOptions {
+  minCutoff: number; // Hz, lower = smoother at rest
+  beta: number; // speed coefficient, higher = less lag on fast motion
+  dCutoff: number; // Hz, cutoff for the derivative estimate
+}
+
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroOptions = {
+  minCutoff: 1.0,
+  beta: 0.02,
+  dCutoff: 1.0
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export class OneEuroFilter {
+  private options: OneEuroOptions;
+  private lastValue: number | null = null;
+  private lastDerivative = 0;
+  private lastTime = 0;
+
+  constructor(options: Partial<OneEuroOptions> = {}) {
+    this.options = { ...DEFAULT_ONE_EURO_OPTIONS, ...options };
+  }
+
+  // timestamp in ms
+  filter(value: number, timestamp: number): number {
+    if (this.lastValue === null) {
+      this.lastValue = value;
+      this.lastTime = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.lastTime) / 1000;
+    // Duplicate or out-of-order frames carry no new information
+    if (dt <= 0) return this.lastValue;
+    this.lastTime = timestamp;
+
+    const { minCutoff, beta, dCutoff } = this.options;
+
+    const derivative = (value - this.lastValue) / dt;
+    const aD = smoothingFactor(dCutoff, dt);
+    this.lastDerivative = aD * derivative + (1 - aD) * this.lastDerivative;
+
+    const cutoff = minCutoff + beta * Math.abs(this.lastDerivative);
+    const a = smoothingFactor(cutoff, dt);
+    this.lastValue = a * value + (1 - a) * this.lastValue;
+    return this.lastValue;
+  }
+
+  reset() {
+    this.lastValue = null;
+    this.lastDerivative = 0;
+  }
+}
@@ -0,0 +1,57 @@
+import * as THREE from 'three';
+
+// All photos share one DataArrayTexture, one layer per photo, so the whole cloud
+// renders from a single instanced mesh. Layers are square; each instance is scaled
+// to its photo's aspect ratio, which undoes the stretch.
+
+// Large collections get smaller layers to bound memory (4 bytes per texel per layer)
+export const layerSizeFor = (count: number) => (count <= 48 ? 512 : 256);
+
+const PLACEHOLDER = 0x33; // Dark grey until a photo has loaded
+
+export const createPhotoArrayTexture = (count: number): THREE.DataArrayTexture => {
+  const size = layerSizeFor(count);
+  const layers = Math.max(1, count);
+  const data = new Uint8Array(size * size * 4 * layers).fill(PLACEHOLDER);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+
+  const texture = new THREE.DataArrayTexture(data, size, size, layers);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.generateMipmaps = true;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Decodes `url` into `layer`, uploading just that layer. Resolves false if it failed.
+export const loadPhotoLayer = async (
+  texture: THREE.DataArrayTexture,
+  layer: number,
+  url: string,
+  ctx: CanvasRenderingContext2D
+): Promise<boolean> => {
+  const size = texture.image.width;
+  try {
+    const response = await fetch(url);
+    const bitmap = await createImageBitmap(await response.blob());
+
+    // Array textures can't flipY on upload, so flip while drawing
+    ctx.save();
+    ctx.clearRect(0, 0, size, size);
+    ctx.translate(0, size);
+    ctx.scale(1, -1);
+    ctx.drawImage(bitmap, 0, 0, size, size);
+    ctx.restore();
+    bitmap.close();
+
+    const pixels = ctx.getImageData(0, 0, size, size).data;
+    (texture.image.data as Uint8Array).set(pixels, layer * size * size * 4);
+    texture.addLayerUpdate(layer);
+    texture.needsUpdate = true;
+    return true;
+  } catch (e) {
+    console.warn(`Failed to load photo ${url}`, e);
+    return false;
+  }
+};
@@ -0,0 +1,123 @@
+import { PhotoMeta } from '../types';
+
+// Local photo library persisted in IndexedDB, so uploads survive a reload.
+// Stores the image blobs alongside their metadata; object URLs are the caller's concern.
+
+export interface StoredPhoto {
+  id: string;
+  name: string;
+  addedAt: number; // ms since epoch
+  order: number; // Position on the tree, ascending
+  blob: Blob; // Already processed by the image pipeline
+  aspect: number; // width / height of the processed photo
+  meta?: PhotoMeta; // Missing on photos saved before captions existed
+}
+
+// Longest caption or author name the details editor accepts
+export const MAX_CAPTION_LENGTH = 80;
+
+const DB_NAME = 'gesture-christmas-tree';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    dbPromise = promisify(request);
+    // Allow a later retry if opening failed (e.g. blocked in private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const loadPhotos = async (): Promise<StoredPhoto[]> => {
+  const db = await openLibrary();
+  const photos = await promisify(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredPhoto[]>);
+  // Photos saved before the image pipeline existed have no aspect
+  return photos.map(photo => ({ ...photo, aspect: photo.aspect ?? 1 })).sort((a, b) => a.order - b.order);
+};
+
+// Appends after the current last photo
+export const addPhotos = async (files: { name: string; blob: Blob; aspect: number; meta: PhotoMeta }[]): Promise<StoredPhoto[]> => {
+  const db = await openLibrary();
+  const existing = await loadPhotos();
+  const nextOrder = existing.length > 0 ? existing[existing.length - 1].order + 1 : 0;
+  const now = Date.now();
+
+  const photos: StoredPhoto[] = files.map((file, i) => ({
+    id: crypto.randomUUID(),
+    name: file.name,
+    addedAt: now,
+    order: nextOrder + i,
+    blob: file.blob,
+    aspect: file.aspect,
+    meta: file.meta
+  }));
+
+  const tx = db.transaction(STORE, 'readwrite');
+  photos.forEach(photo => tx.objectStore(STORE).put(photo));
+  await transactionDone(tx);
+  return photos;
+};
+
+export const removePhoto = async (id: string): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const updatePhotoMeta = async (id: string, meta: PhotoMeta): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const request = store.get(id) as IDBRequest<StoredPhoto | undefined>;
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, meta });
+  };
+  await transactionDone(tx);
+};
+
+// Rewrites every photo's order to match `ids`
+export const reorderPhotos = async (ids: string[]): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  ids.forEach((id, order) => {
+    const request = store.get(id) as IDBRequest<StoredPhoto | undefined>;
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, order });
+    };
+  });
+  await transactionDone(tx);
+};
+
+export const clearLibrary = async (): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+};
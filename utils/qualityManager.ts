@@ -0,0 +1,151 @@
+// Watches frame times and steps rendering quality down when frames run long, and
+// back up after a sustained stretch of headroom. Rendering and hand tracking share
+// the main thread, so a cheaper scene also means faster gesture recognition.
+
+export type QualityTier = 'LOW' | 'MEDIUM' | 'HIGH' | 'ULTRA';
+
+export interface QualitySettings {
+  dpr: number; // Maximum device pixel ratio
+  ornamentCount: number;
+  starScale: number; // Multiplies the theme's star count
+  snowScale: number; // Multiplies the snowfall density
+  postprocessing: boolean; // Bloom and vignette
+  shadows: boolean;
+  environment: boolean; // Image-based lighting from an environment map
+  modelComplexity: 0 | 1; // Lighter hand tracking at 0: the lite model, or fewer frames in the worker
+}
+
+export const QUALITY_TIERS: QualityTier[] = ['LOW', 'MEDIUM', 'HIGH', 'ULTRA'];
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  LOW: { dpr: 1, ornamentCount: 200, starScale: 0.2, snowScale: 0.25, postprocessing: false, shadows: false, environment: false, modelComplexity: 0 },
+  MEDIUM: { dpr: 1.25, ornamentCount: 400, starScale: 0.5, snowScale: 0.5, postprocessing: true, shadows: false, environment: false, modelComplexity: 0 },
+  HIGH: { dpr: 2, ornamentCount: 400, starScale: 1, snowScale: 1, postprocessing: true, shadows: false, environment: true, modelComplexity: 1 },
+  ULTRA: { dpr: 2, ornamentCount: 20000, starScale: 1.5, snowScale: 1, postprocessing: true, shadows: true, environment: true, modelComplexity: 1 }
+};
+
+export interface QualitySnapshot {
+  tier: QualityTier;
+  auto: boolean; // False while the user has picked a tier by hand
+  fps: number; // Averaged over the last measurement window
+  settings: QualitySettings;
+}
+
+export interface QualityManagerOptions {
+  initialTier: QualityTier;
+  windowMs: number; // Frame times are averaged over windows this long
+  downgradeFps: number; // A window below this counts against the current tier
+  upgradeFps: number; // A window above this counts towards the next tier
+  downgradeWindows: number; // Consecutive slow windows before stepping down
+  upgradeWindows: number; // Consecutive fast windows before stepping up
+  settleMs: number; // Ignore frames right after a change while resources rebuild
+  retryMs: number; // Don't retry a tier that was just too slow for this long
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityManagerOptions = {
+  initialTier: 'HIGH',
+  windowMs: 1000,
+  downgradeFps: 40,
+  upgradeFps: 57,
+  downgradeWindows: 2,
+  upgradeWindows: 8,
+  settleMs: 2000,
+  retryMs: 30000
+};
+
+// A frame longer than this means the tab was hidden or the page stalled, not a slow scene
+const MAX_FRAME_MS = 250;
+
+export type QualityListener = (snapshot: QualitySnapshot) => void;
+
+export class QualityManager {
+  private options: QualityManagerOptions;
+  private snapshot: QualitySnapshot;
+  private listeners = new Set<QualityListener>();
+
+  private windowStart: number | null = null;
+  private windowFrames = 0;
+  private windowTime = 0;
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private settleUntil = 0;
+  // When each tier last proved too slow
+  private failedAt = new Map<QualityTier, number>();
+
+  constructor(options: Partial<QualityManagerOptions> = {}) {
+    this.options = { ...DEFAULT_QUALITY_OPTIONS, ...options };
+    const tier = this.options.initialTier;
+    this.snapshot = { tier, auto: true, fps: 0, settings: QUALITY_SETTINGS[tier] };
+  }
+
+  // Stable between changes, so it can back useSyncExternalStore
+  getSnapshot = (): QualitySnapshot => this.snapshot;
+
+  subscribe = (listener: QualityListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Call once per rendered frame
+  sample(frameMs: number, now: number) {
+    if (frameMs <= 0 || frameMs > MAX_FRAME_MS || now < this.settleUntil) return;
+
+    if (this.windowStart === null) this.windowStart = now;
+    this.windowFrames++;
+    this.windowTime += frameMs;
+    if (now - this.windowStart < this.options.windowMs) return;
+
+    const fps = Math.round(1000 * this.windowFrames / this.windowTime);
+    this.windowStart = null;
+    this.windowFrames = 0;
+    this.windowTime = 0;
+
+    if (this.snapshot.auto) this.evaluate(fps, now);
+    if (fps !== this.snapshot.fps) this.update({ fps });
+  }
+
+  // Pins a tier, or returns to automatic scaling with null
+  setOverride(tier: QualityTier | null) {
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+    if (tier === null) {
+      this.failedAt.clear();
+      this.update({ auto: true });
+    } else {
+      this.changeTier(tier, performance.now());
+      this.update({ auto: false });
+    }
+  }
+
+  private evaluate(fps: number, now: number) {
+    const index = QUALITY_TIERS.indexOf(this.snapshot.tier);
+    this.slowWindows = fps < this.options.downgradeFps ? this.slowWindows + 1 : 0;
+    this.fastWindows = fps > this.options.upgradeFps ? this.fastWindows + 1 : 0;
+
+    if (this.slowWindows >= this.options.downgradeWindows && index > 0) {
+      this.failedAt.set(this.snapshot.tier, now);
+      this.changeTier(QUALITY_TIERS[index - 1], now);
+    } else if (this.fastWindows >= this.options.upgradeWindows && index < QUALITY_TIERS.length - 1) {
+      const next = QUALITY_TIERS[index + 1];
+      const failed = this.failedAt.get(next);
+      if (failed === undefined || now - failed > this.options.retryMs) this.changeTier(next, now);
+    }
+  }
+
+  private changeTier(tier: QualityTier, now: number) {
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+    this.windowStart = null;
+    this.windowFrames = 0;
+    this.windowTime = 0;
+    this.settleUntil = now + this.options.settleMs;
+    if (tier !== this.snapshot.tier) this.update({ tier, settings: QUALITY_SETTINGS[tier] });
+  }
+
+  private update(patch: Partial<QualitySnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
@@ -0,0 +1,29 @@
+// Seeded pseudo-random numbers, so a layout can be reproduced from its seed.
+
+// Returns floats in [0, 1), like Math.random
+export type Random = () => number;
+
+// FNV-1a, to turn any seed string into a 32-bit integer
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: tiny, fast and plenty for visual randomness
+export const createRandom = (seed: string): Random => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Short, URL-friendly seed for a fresh tree
+export const randomSeed = (): string => Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, '0');
@@ -0,0 +1,9 @@
+// Only in production builds: in dev the cache would serve stale modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(e => {
+      console.warn('Service worker registration failed; the app will need the network', e);
+    });
+  });
+};
@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+import { Random } from './random';
+
+// A binary 2D shape that particles can be scattered over: rendered text or an
+// uploaded image's silhouette.
+export interface ShapeMask {
+  width: number;
+  height: number;
+  data: Uint8Array; // 1 = inside the shape, row-major from the top-left
+}
+
+const MASK_WIDTH = 256;
+const TEXT_HEIGHT = 96;
+
+export const createTextMask = (text: string): ShapeMask => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D canvas not available');
+
+  const font = (size: number) => `bold ${size}px Cinzel, serif`;
+  ctx.font = font(TEXT_HEIGHT);
+  // Shrink long text to fit rather than clipping it
+  const measured = Math.max(1, ctx.measureText(text).width);
+  const size = Math.min(TEXT_HEIGHT, Math.floor(TEXT_HEIGHT * (MASK_WIDTH * 2 - 16) / measured));
+
+  canvas.width = MASK_WIDTH * 2;
+  canvas.height = Math.ceil(size * 1.4);
+  ctx.font = font(size);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#fff';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const data = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < data.length; i++) data[i] = pixels[i * 4 + 3] > 128 ? 1 : 0;
+  return { width: canvas.width, height: canvas.height, data };
+};
+
+// Decoded through an <img>, since createImageBitmap rejects SVG in Chrome and Firefox.
+// The object URL can go once the image is decoded.
+const loadImage = async (file: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+  } catch {
+    throw new Error('This image could not be read; try a PNG, JPEG or SVG file');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return image;
+};
+
+// Transparent images use their alpha; opaque ones are treated as a dark shape on a light background
+export const createImageMask = async (file: Blob): Promise<ShapeMask> => {
+  const image = await loadImage(file);
+  // An SVG with only a viewBox has no size of its own
+  const naturalWidth = image.naturalWidth || MASK_WIDTH;
+  const naturalHeight = image.naturalHeight || MASK_WIDTH;
+  const scale = MASK_WIDTH / Math.max(naturalWidth, naturalHeight);
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D canvas not available');
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const data = new Uint8Array(width * height);
+  let hasTransparency = false;
+  for (let i = 0; i < data.length; i++) {
+    if (pixels[i * 4 + 3] < 128) {
+      hasTransparency = true;
+      break;
+    }
+  }
+  for (let i = 0; i < data.length; i++) {
+    const p = i * 4;
+    if (hasTransparency) {
+      data[i] = pixels[p + 3] >= 128 ? 1 : 0;
+    } else {
+      const luminance = (0.2126 * pixels[p] + 0.7152 * pixels[p + 1] + 0.0722 * pixels[p + 2]) / 255;
+      data[i] = luminance < 0.5 ? 1 : 0;
+    }
+  }
+  return { width, height, data };
+};
+
+// Random points inside the mask, centered on the origin, `size` world units across
+// the mask's longer side, with some depth so the shape isn't paper thin.
+export const sampleMask = (mask: ShapeMask, count: number, random: Random, size: number, depth: number): THREE.Vector3[] => {
+  const filled: number[] = [];
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i]) filled.push(i);
+  }
+  if (filled.length === 0) return Array.from({ length: count }, () => new THREE.Vector3());
+
+  const unit = size / Math.max(mask.width, mask.height);
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i < count; i++) {
+    const pixel = filled[Math.floor(random() * filled.length)];
+    const px = (pixel % mask.width) + random();
+    const py = Math.floor(pixel / mask.width) + random();
+    points.push(new THREE.Vector3(
+      (px - mask.width / 2) * unit,
+      (mask.height / 2 - py) * unit,
+      (random() - 0.5) * depth
+    ));
+  }
+  // Ordered bottom to top like the other layouts
+  return points.sort((a, b) => a.y - b.y);
+};
@@ -0,0 +1,44 @@
+import { SlideshowOrder, SlideshowSettings } from '../types';
+import { Random } from './random';
+
+export const DEFAULT_SLIDESHOW: SlideshowSettings = { enabled: true, idleSeconds: 30, slideSeconds: 6, order: 'SEQUENTIAL' };
+
+export const SLIDESHOW_LIMITS = {
+  idleSeconds: { min: 5, max: 300, step: 5 },
+  slideSeconds: { min: 2, max: 30, step: 1 }
+};
+
+// The order photos take their turn in the slideshow. Shuffled runs deal every photo
+// once before reshuffling, and never show the same photo twice in a row across runs.
+export class SlideshowPlaylist {
+  private ids: number[];
+  private order: SlideshowOrder;
+  private random: Random;
+  private queue: number[] = [];
+  private last: number | null = null;
+
+  constructor(ids: number[], order: SlideshowOrder, random: Random = Math.random) {
+    this.ids = ids;
+    this.order = order;
+    this.random = random;
+  }
+
+  next(): number | null {
+    if (this.ids.length === 0) return null;
+    if (this.queue.length === 0) this.queue = this.deal();
+    this.last = this.queue.shift() ?? null;
+    return this.last;
+  }
+
+  private deal(): number[] {
+    if (this.order === 'SEQUENTIAL') return [...this.ids];
+    // Fisher-Yates
+    const deck = [...this.ids];
+    for (let i = deck.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+    if (deck.length > 1 && deck[0] === this.last) [deck[0], deck[1]] = [deck[1], deck[0]];
+    return deck;
+  }
+}
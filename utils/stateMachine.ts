@@ -0,0 +1,108 @@
+// Minimal typed finite state machine.
+// States and their transitions are declared as data; adding a state means
+// adding an entry to the table rather than another branch in an if/else chain.
+
+export interface MachineEvent {
+  type: string;
+}
+
+export interface MachineSnapshot<S extends string, C> {
+  state: S;
+  context: C;
+}
+
+export interface Transition<S extends string, E extends MachineEvent, C> {
+  // Omit to stay in the current state (only the action runs, no exit/enter hooks)
+  target?: S;
+  guard?: (context: C, event: E) => boolean;
+  // Returns the next context; context is treated as immutable
+  action?: (context: C, event: E) => C;
+}
+
+type EventOfType<E extends MachineEvent, T extends E['type']> = Extract<E, { type: T }>;
+
+// Several transitions for one event are tried in order; the first whose guard passes wins
+export type TransitionMap<S extends string, E extends MachineEvent, C> = {
+  [T in E['type']]?: Transition<S, EventOfType<E, T>, C> | Transition<S, EventOfType<E, T>, C>[];
+};
+
+export interface StateNode<S extends string, E extends MachineEvent, C> {
+  on?: TransitionMap<S, E, C>;
+  onEnter?: (context: C, event: E | null) => void;
+  onExit?: (context: C, event: E) => void;
+}
+
+export interface MachineConfig<S extends string, E extends MachineEvent, C> {
+  initial: S;
+  context: C;
+  states: Record<S, StateNode<S, E, C>>;
+}
+
+export type MachineListener<S extends string, E extends MachineEvent, C> = (
+  snapshot: MachineSnapshot<S, C>,
+  event: E,
+  previous: MachineSnapshot<S, C>
+) => void;
+
+export class StateMachine<S extends string, E extends MachineEvent, C> {
+  private config: MachineConfig<S, E, C>;
+  private snapshot: MachineSnapshot<S, C>;
+  private listeners = new Set<MachineListener<S, E, C>>();
+
+  constructor(config: MachineConfig<S, E, C>) {
+    this.config = config;
+    this.snapshot = { state: config.initial, context: config.context };
+    config.states[config.initial].onEnter?.(config.context, null);
+  }
+
+  get state(): S {
+    return this.snapshot.state;
+  }
+
+  get context(): C {
+    return this.snapshot.context;
+  }
+
+  // Stable between transitions, so it can back useSyncExternalStore
+  getSnapshot = (): MachineSnapshot<S, C> => this.snapshot;
+
+  // Whether `event` would cause a transition from the current state
+  can(event: E): boolean {
+    return this.findTransition(event) !== null;
+  }
+
+  // Returns true when the event was handled
+  send(event: E): boolean {
+    const transition = this.findTransition(event);
+    if (!transition) return false;
+
+    const previous = this.snapshot;
+    const context = transition.action ? transition.action(previous.context, event) : previous.context;
+    const target = transition.target ?? previous.state;
+    const changesState = target !== previous.state;
+
+    if (changesState) this.config.states[previous.state].onExit?.(previous.context, event);
+    this.snapshot = { state: target, context };
+    if (changesState) this.config.states[target].onEnter?.(context, event);
+
+    this.listeners.forEach(listener => listener(this.snapshot, event, previous));
+    return true;
+  }
+
+  subscribe = (listener: MachineListener<S, E, C>): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private findTransition(event: E): Transition<S, E, C> | null {
+    const map = this.config.states[this.snapshot.state].on as
+      Record<string, Transition<S, E, C> | Transition<S, E, C>[] | undefined> | undefined;
+    const entry = map?.[event.type];
+    if (!entry) return null;
+
+    const candidates = Array.isArray(entry) ? entry : [entry];
+    return candidates.find(t => !t.guard || t.guard(this.snapshot.context, event)) ?? null;
+  }
+}
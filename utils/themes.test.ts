@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, parseTheme, validateTheme } from './themes';
+
+describe('validateTheme', () => {
+  it('accepts its own themes unchanged', () => {
+    expect(parseTheme(JSON.stringify(DEFAULT_THEME))).toEqual(DEFAULT_THEME);
+  });
+
+  it('gives themes exported before string lights the default bulbs', () => {
+    const { stringLights: _, ...older } = DEFAULT_THEME;
+    const theme = validateTheme({ ...older, id: 'older', name: 'Older' });
+
+    expect(theme.stringLights).toEqual(DEFAULT_THEME.stringLights);
+  });
+
+  it('still rejects string lights that are there but malformed', () => {
+    expect(() => validateTheme({ ...DEFAULT_THEME, stringLights: 'red' })).toThrow('stringLights must be an object');
+  });
+});
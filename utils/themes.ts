@@ -0,0 +1,296 @@
+import { OrnamentStyle, Theme, ThemeLight, WeightedColor } from '../types';
+
+// Built-in looks plus JSON import/export for custom ones. A theme only changes how
+// things are drawn; the layout and seed still decide where everything goes.
+
+export const ENVIRONMENT_PRESETS = [
+  'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'studio', 'sunset', 'warehouse'
+] as const;
+
+export type EnvironmentPreset = typeof ENVIRONMENT_PRESETS[number];
+
+// The bulb shader holds the string light colors in a fixed-size uniform
+export const MAX_BULB_COLORS = 4;
+
+const CLASSIC: Theme = {
+  id: 'classic',
+  name: 'Classic',
+  ornaments: {
+    sphere: {
+      weight: 0.9,
+      palette: [
+        { color: '#2F5A47', weight: 0.6 },
+        { color: '#C41E3A', weight: 0.2 },
+        { color: '#FFD700', weight: 0.1 }
+      ]
+    },
+    cube: { weight: 0.1, palette: [{ color: '#FFD700', weight: 1 }] }
+  },
+  material: { roughness: 0.3, metalness: 0.6, envMapIntensity: 1 },
+  frameColor: '#FFD700',
+  background: '#051015',
+  environment: 'city',
+  exposure: 1.5,
+  lights: {
+    ambient: { color: '#ffffff', intensity: 0.5 },
+    directional: { color: '#ffffff', intensity: 1, position: [0, 10, 10] },
+    points: [
+      { color: '#ffd700', intensity: 1, position: [10, 5, 10] },
+      { color: '#ff0000', intensity: 0.5, position: [-10, -5, 10] }
+    ]
+  },
+  stringLights: { colors: ['#FFD27A', '#FF3B3B', '#3BFF6E', '#3B8BFF'], star: '#FFD700' },
+  stars: { count: 5000, factor: 4, saturation: 0 },
+  bloom: { intensity: 1.2, threshold: 0.8, radius: 0.5 },
+  vignette: { offset: 0.1, darkness: 1.1 }
+};
+
+const WINTER_SILVER: Theme = {
+  id: 'winter-silver',
+  name: 'Winter Silver',
+  ornaments: {
+    sphere: {
+      weight: 0.8,
+      palette: [
+        { color: '#DDE6EE', weight: 0.5 },
+        { color: '#9FB4C7', weight: 0.3 },
+        { color: '#5B7A99', weight: 0.2 }
+      ]
+    },
+    cube: { weight: 0.2, palette: [{ color: '#FFFFFF', weight: 0.7 }, { color: '#A8D8FF', weight: 0.3 }] }
+  },
+  material: { roughness: 0.15, metalness: 0.9, envMapIntensity: 1.4 },
+  frameColor: '#E0E6ED',
+  background: '#0A1220',
+  environment: 'dawn',
+  exposure: 1.3,
+  lights: {
+    ambient: { color: '#cfe0ff', intensity: 0.6 },
+    directional: { color: '#ffffff', intensity: 1.2, position: [0, 10, 10] },
+    points: [
+      { color: '#a8d8ff', intensity: 1, position: [10, 5, 10] },
+      { color: '#ffffff', intensity: 0.6, position: [-10, -5, 10] }
+    ]
+  },
+  stringLights: { colors: ['#FFFFFF', '#A8D8FF'], star: '#F0F6FF' },
+  stars: { count: 7000, factor: 3, saturation: 0 },
+  bloom: { intensity: 1, threshold: 0.75, radius: 0.6 },
+  vignette: { offset: 0.15, darkness: 0.9 }
+};
+
+const CANDY: Theme = {
+  id: 'candy',
+  name: 'Candy',
+  ornaments: {
+    sphere: {
+      weight: 0.75,
+      palette: [
+        { color: '#FF6FAE', weight: 0.35 },
+        { color: '#FFFFFF', weight: 0.3 },
+        { color: '#E4002B', weight: 0.2 },
+        { color: '#7FE0C4', weight: 0.15 }
+      ]
+    },
+    cube: { weight: 0.25, palette: [{ color: '#FFFFFF', weight: 0.5 }, { color: '#FF6FAE', weight: 0.5 }] }
+  },
+  material: { roughness: 0.45, metalness: 0.2, envMapIntensity: 0.8 },
+  frameColor: '#FFFFFF',
+  background: '#1A0814',
+  environment: 'sunset',
+  exposure: 1.4,
+  lights: {
+    ambient: { color: '#ffe0f0', intensity: 0.6 },
+    directional: { color: '#ffffff', intensity: 1, position: [0, 10, 10] },
+    points: [
+      { color: '#ff6fae', intensity: 1, position: [10, 5, 10] },
+      { color: '#7fe0c4', intensity: 0.6, position: [-10, -5, 10] }
+    ]
+  },
+  stringLights: { colors: ['#FF6FAE', '#FFFFFF', '#7FE0C4'], star: '#FFB3D9' },
+  stars: { count: 3000, factor: 4, saturation: 0.6 },
+  bloom: { intensity: 1, threshold: 0.85, radius: 0.4 },
+  vignette: { offset: 0.1, darkness: 0.8 }
+};
+
+const NEON: Theme = {
+  id: 'neon',
+  name: 'Neon',
+  ornaments: {
+    sphere: {
+      weight: 0.85,
+      palette: [
+        { color: '#00F0FF', weight: 0.35 },
+        { color: '#FF00C8', weight: 0.35 },
+        { color: '#B4FF00', weight: 0.3 }
+      ]
+    },
+    cube: { weight: 0.15, palette: [{ color: '#FFE600', weight: 1 }] }
+  },
+  material: { roughness: 0.2, metalness: 0.3, envMapIntensity: 0.4 },
+  frameColor: '#00F0FF',
+  background: '#020008',
+  environment: 'night',
+  exposure: 1.8,
+  lights: {
+    ambient: { color: '#6040ff', intensity: 0.3 },
+    directional: { color: '#ffffff', intensity: 0.6, position: [0, 10, 10] },
+    points: [
+      { color: '#00f0ff', intensity: 1.5, position: [10, 5, 10] },
+      { color: '#ff00c8', intensity: 1.5, position: [-10, -5, 10] }
+    ]
+  },
+  stringLights: { colors: ['#00F0FF', '#FF00C8', '#B4FF00', '#FFE600'], star: '#FFE600' },
+  stars: { count: 4000, factor: 5, saturation: 1 },
+  bloom: { intensity: 2, threshold: 0.6, radius: 0.7 },
+  vignette: { offset: 0.2, darkness: 1.3 }
+};
+
+export const BUILT_IN_THEMES: Theme[] = [CLASSIC, WINTER_SILVER, CANDY, NEON];
+
+export const DEFAULT_THEME = CLASSIC;
+
+export const getBuiltInTheme = (id: string): Theme | undefined => BUILT_IN_THEMES.find(t => t.id === id);
+
+// Picks an entry by relative weight, `roll` in [0, 1)
+export const pickWeighted = <T extends { weight: number }>(items: T[], roll: number): T => {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  let remaining = roll * total;
+  for (const item of items) {
+    remaining -= item.weight;
+    if (remaining < 0) return item;
+  }
+  return items[items.length - 1];
+};
+
+export const serializeTheme = (theme: Theme): string => JSON.stringify(theme, null, 2);
+
+// --- Import validation: every problem names the offending field ---
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid theme: ${path} must be ${expected}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, path: string) => (isObject(value) ? value : fail(path, 'an object'));
+
+const readNumber = (value: unknown, path: string, min = 0, max = Infinity): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : fail(path, max === Infinity ? `a number >= ${min}` : `a number between ${min} and ${max}`);
+
+const readString = (value: unknown, path: string): string =>
+  typeof value === 'string' && value.length > 0 ? value : fail(path, 'a non-empty string');
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const readColor = (value: unknown, path: string): string =>
+  typeof value === 'string' && HEX_COLOR.test(value) ? value : fail(path, 'a hex color like "#ffd700"');
+
+const readVector = (value: unknown, path: string): [number, number, number] => {
+  if (!Array.isArray(value) || value.length !== 3) return fail(path, 'an [x, y, z] array');
+  return [0, 1, 2].map(i => readNumber(value[i], `${path}[${i}]`, -Infinity)) as [number, number, number];
+};
+
+const readPalette = (value: unknown, path: string): WeightedColor[] => {
+  if (!Array.isArray(value) || value.length === 0) return fail(path, 'a non-empty array');
+  return value.map((entry, i) => {
+    const o = readObject(entry, `${path}[${i}]`);
+    return { color: readColor(o.color, `${path}[${i}].color`), weight: readNumber(o.weight, `${path}[${i}].weight`) };
+  });
+};
+
+const readOrnament = (value: unknown, path: string): OrnamentStyle => {
+  const o = readObject(value, path);
+  return { weight: readNumber(o.weight, `${path}.weight`), palette: readPalette(o.palette, `${path}.palette`) };
+};
+
+const readLight = (value: unknown, path: string): ThemeLight => {
+  const o = readObject(value, path);
+  return {
+    color: readColor(o.color, `${path}.color`),
+    intensity: readNumber(o.intensity, `${path}.intensity`),
+    position: readVector(o.position, `${path}.position`)
+  };
+};
+
+// Checks an unknown value (e.g. parsed JSON) is a complete theme. Themes exported
+// before string lights existed have none and get the default theme's bulbs.
+export const validateTheme = (value: unknown): Theme => {
+  const o = readObject(value, 'theme');
+  const ornaments = readObject(o.ornaments, 'ornaments');
+  const material = readObject(o.material, 'material');
+  const lights = readObject(o.lights, 'lights');
+  const ambient = readObject(lights.ambient, 'lights.ambient');
+  const stringLights = o.stringLights === undefined ? DEFAULT_THEME.stringLights : readObject(o.stringLights, 'stringLights');
+  const stars = readObject(o.stars, 'stars');
+  const bloom = readObject(o.bloom, 'bloom');
+  const vignette = readObject(o.vignette, 'vignette');
+  if (!Array.isArray(lights.points)) fail('lights.points', 'an array');
+  const bulbs = stringLights.colors;
+  if (!Array.isArray(bulbs) || bulbs.length === 0 || bulbs.length > MAX_BULB_COLORS) {
+    fail('stringLights.colors', `an array of 1 to ${MAX_BULB_COLORS} colors`);
+  }
+
+  const environment = readString(o.environment, 'environment');
+  if (!(ENVIRONMENT_PRESETS as readonly string[]).includes(environment)) {
+    fail('environment', `one of ${ENVIRONMENT_PRESETS.join(', ')}`);
+  }
+
+  const theme: Theme = {
+    id: readString(o.id, 'id'),
+    name: readString(o.name, 'name'),
+    ornaments: {
+      sphere: readOrnament(ornaments.sphere, 'ornaments.sphere'),
+      cube: readOrnament(ornaments.cube, 'ornaments.cube')
+    },
+    material: {
+      roughness: readNumber(material.roughness, 'material.roughness', 0, 1),
+      metalness: readNumber(material.metalness, 'material.metalness', 0, 1),
+      envMapIntensity: readNumber(material.envMapIntensity, 'material.envMapIntensity')
+    },
+    frameColor: readColor(o.frameColor, 'frameColor'),
+    background: readColor(o.background, 'background'),
+    environment,
+    exposure: readNumber(o.exposure, 'exposure', 0, 10),
+    lights: {
+      ambient: { color: readColor(ambient.color, 'lights.ambient.color'), intensity: readNumber(ambient.intensity, 'lights.ambient.intensity') },
+      directional: readLight(lights.directional, 'lights.directional'),
+      points: (lights.points as unknown[]).map((light, i) => readLight(light, `lights.points[${i}]`))
+    },
+    stringLights: {
+      colors: (bulbs as unknown[]).map((color, i) => readColor(color, `stringLights.colors[${i}]`)),
+      star: readColor(stringLights.star, 'stringLights.star')
+    },
+    stars: {
+      count: Math.round(readNumber(stars.count, 'stars.count', 0, 50000)),
+      factor: readNumber(stars.factor, 'stars.factor'),
+      saturation: readNumber(stars.saturation, 'stars.saturation', 0, 1)
+    },
+    bloom: {
+      intensity: readNumber(bloom.intensity, 'bloom.intensity'),
+      threshold: readNumber(bloom.threshold, 'bloom.threshold', 0, 1),
+      radius: readNumber(bloom.radius, 'bloom.radius', 0, 1)
+    },
+    vignette: {
+      offset: readNumber(vignette.offset, 'vignette.offset'),
+      darkness: readNumber(vignette.darkness, 'vignette.darkness')
+    }
+  };
+
+  if (theme.ornaments.sphere.weight + theme.ornaments.cube.weight <= 0) {
+    fail('ornaments', 'given a positive weight for at least one type');
+  }
+  return theme;
+};
+
+export const parseTheme = (json: string): Theme => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid theme: not valid JSON');
+  }
+  return validateTheme(value);
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { TreeConfig } from '../types';
+import { DEFAULT_LAYOUT } from './layouts';
+import {
+  TREE_CONFIG_VERSION,
+  decodeTreeConfigHash,
+  encodeTreeConfigHash,
+  parseTreeConfig,
+  serializeTreeConfig
+} from './treeConfig';
+
+const CONFIG: TreeConfig = {
+  version: TREE_CONFIG_VERSION,
+  seed: 'abc123',
+  layout: DEFAULT_LAYOUT,
+  theme: 'classic',
+  ornamentCount: 400,
+  weather: { snow: true, density: 0.5, wind: -0.25 },
+  greeting: 'Merry Christmas',
+  photos: []
+};
+
+const withField = (field: string, value: unknown) => JSON.stringify({ ...CONFIG, [field]: value });
+
+describe('parseTreeConfig', () => {
+  it('reads back what it wrote', () => {
+    expect(parseTreeConfig(serializeTreeConfig(CONFIG))).toEqual(CONFIG);
+  });
+
+  it('rejects a config from a newer version of the app', () => {
+    expect(() => parseTreeConfig(withField('version', TREE_CONFIG_VERSION + 1)))
+      .toThrow(`Invalid tree config: version ${TREE_CONFIG_VERSION + 1} was made by a newer version of the app, which reads up to ${TREE_CONFIG_VERSION}`);
+  });
+
+  it('rejects an outdated or unknown version', () => {
+    expect(() => parseTreeConfig(withField('version', 0)))
+      .toThrow(`Invalid tree config: version 0 is outdated and can no longer be loaded (the current version is ${TREE_CONFIG_VERSION})`);
+    expect(() => parseTreeConfig(withField('version', '1'))).toThrow('Invalid tree config: version must be a whole number');
+  });
+
+  it('names the field that is out of range', () => {
+    expect(() => parseTreeConfig(withField('ornamentCount', 10)))
+      .toThrow('Invalid tree config: ornamentCount must be a number between 50 and 20000');
+    expect(() => parseTreeConfig(withField('weather', { snow: true, density: 2, wind: 0 })))
+      .toThrow('Invalid tree config: weather.density must be a number between 0 and 1');
+    expect(() => parseTreeConfig(withField('photos', [{ url: 'https://example.com/a.jpg', aspect: 100 }])))
+      .toThrow('Invalid tree config: photos[0].aspect must be a number between 0.05 and 20');
+    expect(() => parseTreeConfig(withField('theme', 'no-such-theme')))
+      .toThrow(/^Invalid tree config: theme must be one of classic/);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseTreeConfig('{"version": 1,')).toThrow('Invalid tree config: not valid JSON');
+  });
+});
+
+describe('tree config links', () => {
+  it('decodes the config it encoded, without the photos', async () => {
+    const photos = [{ url: 'https://example.com/a.jpg', aspect: 1.5 }];
+    const hash = await encodeTreeConfigHash({ ...CONFIG, photos });
+
+    expect(hash).toMatch(/^tree=z/);
+    expect(await decodeTreeConfigHash(`#${hash}`)).toEqual(CONFIG);
+  });
+
+  it('resolves null when the hash holds no tree', async () => {
+    expect(await decodeTreeConfigHash('')).toBeNull();
+    expect(await decodeTreeConfigHash('#other=1')).toBeNull();
+  });
+
+  it('reports a truncated link as damaged', async () => {
+    const hash = await encodeTreeConfigHash(CONFIG);
+
+    await expect(decodeTreeConfigHash(`#${hash.slice(0, hash.length / 2)}`))
+      .rejects.toThrow(/^Invalid tree config: the link is damaged/);
+  });
+
+  it('reports garbage as damaged', async () => {
+    await expect(decodeTreeConfigHash('#tree=z%%%not-base64')).rejects.toThrow(/^Invalid tree config: the link is damaged/);
+    await expect(decodeTreeConfigHash('#tree=qabc')).rejects.toThrow("Invalid tree config: the link is damaged (unknown format 'q')");
+  });
+
+  it('checks a decoded link like an imported file', async () => {
+    const json = new TextEncoder().encode(withField('version', TREE_CONFIG_VERSION + 1));
+    const hash = `tree=j${btoa(String.fromCharCode(...json)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+
+    await expect(decodeTreeConfigHash(hash)).rejects.toThrow(/^Invalid tree config: version 2 was made by a newer version/);
+  });
+});
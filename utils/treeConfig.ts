@@ -0,0 +1,241 @@
+import { LayoutParams, LayoutSelection, PhotoEntry, PhotoMeta, PhotoRef, PhotoSource, Theme, TreeConfig, WeatherSettings } from '../types';
+import { getLayout } from './layouts';
+import { BUILT_IN_THEMES, getBuiltInTheme, validateTheme } from './themes';
+import { MAX_CAPTION_LENGTH } from './photoLibrary';
+
+// Saving, sharing and loading a whole tree. The JSON file keeps everything; the
+// URL hash form leaves out photos, which don't fit in a link.
+
+export const TREE_CONFIG_VERSION = 1;
+export const MIN_ORNAMENTS = 50;
+export const MAX_ORNAMENTS = 20000;
+export const MAX_GREETING_LENGTH = 60;
+
+const HASH_KEY = 'tree';
+
+// What the App has to hand when a config is exported
+export interface TreeConfigSource {
+  seed: string;
+  layout: LayoutSelection;
+  theme: Theme;
+  ornamentCount: number | null;
+  weather: WeatherSettings;
+  greeting: string;
+  photos: (PhotoSource | PhotoEntry)[];
+}
+
+const isLibraryPhoto = (photo: PhotoSource | PhotoEntry): photo is PhotoEntry => 'id' in photo;
+
+export const createTreeConfig = (source: TreeConfigSource): TreeConfig => ({
+  version: TREE_CONFIG_VERSION,
+  seed: source.seed,
+  layout: source.layout,
+  // Built-ins are stored by id so links stay short and pick up fixes to the theme
+  theme: BUILT_IN_THEMES.includes(source.theme) ? source.theme.id : source.theme,
+  ornamentCount: source.ornamentCount,
+  weather: source.weather,
+  greeting: source.greeting,
+  photos: source.photos.map((photo): PhotoRef =>
+    isLibraryPhoto(photo)
+      ? { libraryId: photo.id, name: photo.name, aspect: photo.aspect }
+      : { url: photo.url, aspect: photo.aspect, ...(photo.meta && { meta: photo.meta }) }
+  )
+});
+
+export const serializeTreeConfig = (config: TreeConfig): string => JSON.stringify(config, null, 2);
+
+// --- Import validation: every problem names the offending field ---
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid tree config: ${path} must be ${expected}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, path: string) => (isObject(value) ? value : fail(path, 'an object'));
+
+const readNumber = (value: unknown, path: string, min = -Infinity, max = Infinity): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : fail(path, `a number between ${min} and ${max}`);
+
+const readString = (value: unknown, path: string, maxLength = Infinity): string =>
+  typeof value === 'string' && value.length <= maxLength
+    ? value
+    : fail(path, maxLength === Infinity ? 'a string' : `a string of at most ${maxLength} characters`);
+
+const readVersion = (value: unknown) => {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return fail('version', 'a whole number');
+  if (value > TREE_CONFIG_VERSION) {
+    throw new Error(`Invalid tree config: version ${value} was made by a newer version of the app, which reads up to ${TREE_CONFIG_VERSION}`);
+  }
+  if (value < TREE_CONFIG_VERSION) {
+    throw new Error(`Invalid tree config: version ${value} is outdated and can no longer be loaded (the current version is ${TREE_CONFIG_VERSION})`);
+  }
+  return value as typeof TREE_CONFIG_VERSION;
+};
+
+// Parameters are checked against the layout's own definitions; missing ones take their defaults
+const readLayout = (value: unknown): LayoutSelection => {
+  const o = readObject(value, 'layout');
+  const id = readString(o.id, 'layout.id');
+  const definition = getLayout(id) ?? fail('layout.id', 'a known layout');
+  const raw = o.params === undefined ? {} : readObject(o.params, 'layout.params');
+  const params: LayoutParams = {};
+  definition.params.forEach(param => {
+    const path = `layout.params.${param.key}`;
+    const given = raw[param.key];
+    if (given === undefined) {
+      params[param.key] = param.default;
+    } else if (param.type === 'number') {
+      params[param.key] = readNumber(given, path, param.min, param.max);
+    } else {
+      params[param.key] = readString(given, path, param.maxLength);
+    }
+  });
+  return { id, params };
+};
+
+const readTheme = (value: unknown): string | Theme => {
+  if (typeof value === 'string') {
+    return getBuiltInTheme(value) ? value : fail('theme', `one of ${BUILT_IN_THEMES.map(t => t.id).join(', ')} or a theme object`);
+  }
+  try {
+    return validateTheme(value);
+  } catch (e) {
+    // Keep the theme validator's message, which names the field
+    throw new Error(`Invalid tree config: ${e instanceof Error ? e.message.replace(/^Invalid theme: /, 'theme.') : e}`);
+  }
+};
+
+const readWeather = (value: unknown): WeatherSettings => {
+  const o = readObject(value, 'weather');
+  if (typeof o.snow !== 'boolean') fail('weather.snow', 'true or false');
+  return {
+    snow: o.snow as boolean,
+    density: readNumber(o.density, 'weather.density', 0, 1),
+    wind: readNumber(o.wind, 'weather.wind', -1, 1)
+  };
+};
+
+const readMeta = (value: unknown, path: string): PhotoMeta => {
+  const o = readObject(value, path);
+  const meta: PhotoMeta = {};
+  if (o.caption !== undefined) meta.caption = readString(o.caption, `${path}.caption`, MAX_CAPTION_LENGTH);
+  if (o.takenAt !== undefined) meta.takenAt = readNumber(o.takenAt, `${path}.takenAt`);
+  if (o.author !== undefined) meta.author = readString(o.author, `${path}.author`, MAX_CAPTION_LENGTH);
+  return meta;
+};
+
+const readPhoto = (value: unknown, path: string): PhotoRef => {
+  const o = readObject(value, path);
+  const aspect = readNumber(o.aspect, `${path}.aspect`, 0.05, 20);
+  if (typeof o.url === 'string') {
+    if (!/^https?:\/\//.test(o.url)) fail(`${path}.url`, 'an http(s) address');
+    return o.meta === undefined ? { url: o.url, aspect } : { url: o.url, aspect, meta: readMeta(o.meta, `${path}.meta`) };
+  }
+  if (typeof o.libraryId === 'string') {
+    return { libraryId: o.libraryId, name: readString(o.name, `${path}.name`), aspect };
+  }
+  return fail(path, 'a photo with a url or a libraryId');
+};
+
+export const validateTreeConfig = (value: unknown): TreeConfig => {
+  const o = readObject(value, 'config');
+  const version = readVersion(o.version);
+  const seed = readString(o.seed, 'seed', 64);
+  if (!seed) fail('seed', 'a non-empty string');
+  const photos = o.photos === undefined ? [] : o.photos;
+  if (!Array.isArray(photos)) fail('photos', 'an array');
+
+  return {
+    version,
+    seed,
+    layout: readLayout(o.layout),
+    theme: readTheme(o.theme),
+    ornamentCount: o.ornamentCount === null || o.ornamentCount === undefined
+      ? null
+      : Math.round(readNumber(o.ornamentCount, 'ornamentCount', MIN_ORNAMENTS, MAX_ORNAMENTS)),
+    weather: readWeather(o.weather),
+    greeting: o.greeting === undefined ? '' : readString(o.greeting, 'greeting', MAX_GREETING_LENGTH),
+    photos: (photos as unknown[]).map((photo, i) => readPhoto(photo, `photos[${i}]`))
+  };
+};
+
+export const parseTreeConfig = (json: string): TreeConfig => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid tree config: not valid JSON');
+  }
+  return validateTreeConfig(value);
+};
+
+// Photos the config can show here: web photos always, library photos only in the
+// browser that has them. `missing` counts the ones that couldn't be found.
+export const resolvePhotoRefs = (refs: PhotoRef[], library: PhotoEntry[]) => {
+  const photos: (PhotoSource | PhotoEntry)[] = [];
+  let missing = 0;
+  refs.forEach(ref => {
+    if ('url' in ref) {
+      photos.push(ref);
+      return;
+    }
+    const entry = library.find(photo => photo.id === ref.libraryId);
+    if (entry) photos.push(entry);
+    else missing++;
+  });
+  return { photos, missing };
+};
+
+// --- URL hash: #tree=<format><base64url>, 'z' deflated JSON or 'j' plain JSON ---
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+// Photos are dropped: library photos only exist on this device and web ones make links too long
+export const encodeTreeConfigHash = async (config: TreeConfig): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify({ ...config, photos: [] }));
+  const encoded = canCompress()
+    ? `z${toBase64Url(await transform(json, new CompressionStream('deflate-raw')))}`
+    : `j${toBase64Url(json)}`;
+  return `${HASH_KEY}=${encoded}`;
+};
+
+// Resolves null when the hash holds no tree config; rejects when it holds a bad one
+export const decodeTreeConfigHash = async (hash: string): Promise<TreeConfig | null> => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (!value) return null;
+  let json: string;
+  try {
+    const bytes = fromBase64Url(value.slice(1));
+    if (value[0] === 'z') {
+      if (!canCompress()) throw new Error('This browser cannot read compressed links');
+      json = new TextDecoder().decode(await transform(bytes, new DecompressionStream('deflate-raw')));
+    } else if (value[0] === 'j') {
+      json = new TextDecoder().decode(bytes);
+    } else {
+      throw new Error(`unknown format '${value[0]}'`);
+    }
+  } catch (e) {
+    throw new Error(`Invalid tree config: the link is damaged (${e instanceof Error ? e.message : e})`);
+  }
+  return parseTreeConfig(json);
+};
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the MediaPipe wasm and model files are served from; defaults to the app's own origin
+  readonly VITE_MEDIAPIPE_BASE?: string;
+}
@@ -1,6 +1,10 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+import { MEDIAPIPE_FALLBACK_DIR, mediapipeAssets } from './plugins/mediapipeAssets';
+import { serviceWorker } from './plugins/serviceWorker';
+import { ENVIRONMENT_MAP_URLS } from './utils/environmentMaps';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +13,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        tailwindcss(),
+        mediapipeAssets(),
+        serviceWorker({ runtimeOnly: [MEDIAPIPE_FALLBACK_DIR], remote: ENVIRONMENT_MAP_URLS }),
+      ],
+      // The hand tracking worker is a module worker and imports MediaPipe
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
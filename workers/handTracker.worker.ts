@@ -0,0 +1,83 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { HandFrame } from '../types';
+import { HandTrackerOptions, HandTrackerRequest, HandTrackerResponse } from '../utils/handTrackingProtocol';
+
+// Runs MediaPipe hand landmark inference off the main thread, so it doesn't compete
+// with rendering. One frame is processed at a time; the main thread waits for each
+// result before sending the next.
+
+// The project compiles against the DOM lib, so describe the bits of the worker scope used here
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<HandTrackerRequest>) => void) | null;
+  postMessage(message: HandTrackerResponse): void;
+  close(): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let landmarker: HandLandmarker | null = null;
+
+const init = async (options: HandTrackerOptions) => {
+  // The ES module build of the runtime, since a module worker can't importScripts
+  const fileset = await FilesetResolver.forVisionTasks(options.wasmPath, true);
+  const create = (delegate: 'GPU' | 'CPU') =>
+    HandLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: options.modelPath, delegate },
+      // The GPU delegate needs a WebGL context, which a worker can only get from an OffscreenCanvas
+      canvas: delegate === 'GPU' ? new OffscreenCanvas(1, 1) : undefined,
+      runningMode: 'VIDEO',
+      numHands: options.numHands,
+      minHandDetectionConfidence: options.minDetectionConfidence,
+      minHandPresenceConfidence: options.minDetectionConfidence,
+      minTrackingConfidence: options.minTrackingConfidence
+    });
+
+  let delegate: 'GPU' | 'CPU' = 'GPU';
+  try {
+    landmarker = await create('GPU');
+  } catch (e) {
+    console.warn('GPU hand tracking unavailable, using the CPU', e);
+    delegate = 'CPU';
+    landmarker = await create('CPU');
+  }
+  scope.postMessage({ type: 'ready', delegate });
+};
+
+const detect = (bitmap: ImageBitmap, timestamp: number) => {
+  const start = performance.now();
+  let hands: HandFrame[] = [];
+  try {
+    if (landmarker) {
+      const result = landmarker.detectForVideo(bitmap, timestamp);
+      // MediaPipe labels handedness assuming a mirrored selfie image; the webcam feed isn't mirrored
+      hands = result.landmarks.map((landmarks, i) => ({
+        landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+        handedness: result.handedness[i]?.[0]?.categoryName === 'Left' ? 'Right' : 'Left'
+      }));
+    }
+  } finally {
+    bitmap.close();
+  }
+  scope.postMessage({ type: 'result', hands, timestamp, inferenceMs: performance.now() - start });
+};
+
+scope.onmessage = event => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      init(message.options).catch(e => scope.postMessage({ type: 'error', message: String(e?.message ?? e) }));
+      break;
+    case 'frame':
+      try {
+        detect(message.bitmap, message.timestamp);
+      } catch (e) {
+        scope.postMessage({ type: 'error', message: String(e?.message ?? e) });
+      }
+      break;
+    case 'close':
+      landmarker?.close();
+      landmarker = null;
+      scope.close();
+      break;
+  }
+};